@@ -5,7 +5,14 @@ const URL = "wss://engram-fi-1.entrained.ai:2096";
 
 async function main() {
   const phone = new Trimphone(URL);
-  await phone.register("bash@home.local");
+  await phone.register("bash@home.local", {
+    // Only hand a shell to callers from our own domain.
+    acl: { allow: ["*@home.local"] },
+  });
+
+  phone.on("accessDenied", ({ from }) => {
+    console.warn(`⛔ Refused remote shell request from ${from}`);
+  });
 
   phone.on("ring", (call) => {
     console.log(`📞 Remote shell request from ${call.from}`);
@@ -0,0 +1,84 @@
+/** Decides on a caller's metadata (and address) whether an ACL rule applies. */
+export type AclMetadataPredicate = (metadata: Record<string, unknown>, from: string) => boolean;
+
+export interface AclRule {
+  /** Address pattern(s); `*` matches any run of characters and `?` a single one. */
+  address?: string | string[];
+  /** Values the caller's metadata must contain, or a predicate over it. */
+  metadata?: Record<string, unknown> | AclMetadataPredicate;
+}
+
+/** A bare string is shorthand for `{ address: pattern }`. */
+export type AclEntry = string | AclRule;
+
+/**
+ * Caller screening applied before a `Call` is created. A caller matching any
+ * `deny` entry is refused; when `allow` is non-empty the caller must also match
+ * one of its entries.
+ */
+export interface AccessControlList {
+  allow?: AclEntry[];
+  deny?: AclEntry[];
+}
+
+export type AclDenialReason = "denied" | "not_allowed";
+
+export type AclDecision = { allowed: true } | { allowed: false; reason: AclDenialReason; rule?: AclEntry };
+
+const patternCache = new Map<string, RegExp>();
+
+function patternToRegExp(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split("")
+      .map((char) => {
+        if (char === "*") {
+          return ".*";
+        }
+        if (char === "?") {
+          return ".";
+        }
+        return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("");
+    regex = new RegExp(`^${source}$`, "i");
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+/** Case-insensitive wildcard match of a SystemX address, e.g. `*@ops.example.com`. */
+export function matchAddressPattern(pattern: string, address: string): boolean {
+  return patternToRegExp(pattern).test(address);
+}
+
+function matchesRule(entry: AclEntry, from: string, metadata: Record<string, unknown>): boolean {
+  const rule: AclRule = typeof entry === "string" ? { address: entry } : entry;
+
+  if (rule.address !== undefined) {
+    const patterns = Array.isArray(rule.address) ? rule.address : [rule.address];
+    if (!patterns.some((pattern) => matchAddressPattern(pattern, from))) {
+      return false;
+    }
+  }
+
+  if (typeof rule.metadata === "function") {
+    return rule.metadata(metadata, from);
+  }
+  if (rule.metadata) {
+    return Object.entries(rule.metadata).every(([key, value]) => metadata[key] === value);
+  }
+  return true;
+}
+
+export function evaluateAcl(acl: AccessControlList, from: string, metadata: Record<string, unknown> = {}): AclDecision {
+  const denied = acl.deny?.find((entry) => matchesRule(entry, from, metadata));
+  if (denied !== undefined) {
+    return { allowed: false, reason: "denied", rule: denied };
+  }
+  if (acl.allow && acl.allow.length > 0 && !acl.allow.some((entry) => matchesRule(entry, from, metadata))) {
+    return { allowed: false, reason: "not_allowed" };
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,109 @@
+/**
+ * Raw WebSocket data frames for binary MSG payloads, used instead of base64 once
+ * the exchange accepts the "binary_frames" feature. Layout:
+ *
+ *   magic 0xc1 | version u8 | flags u8 | call id length u16 (BE) | call id (UTF-8)
+ *     [| stream name length u8 | stream name (UTF-8)]  when BINARY_FRAME_FLAG_STREAM is set
+ *     | payload
+ *
+ * Frames that name a substream are written as version 2 so receivers that only
+ * know version 1 reject them instead of reading the name as payload; frames for
+ * the default stream stay at version 1.
+ *
+ * 0xc1 is never produced by MessagePack and is not JSON text, so data frames can
+ * share the socket with codec-encoded frames.
+ */
+
+export const BINARY_FRAME_MAGIC = 0xc1;
+export const BINARY_FRAME_VERSION = 2;
+/** The version written for frames without BINARY_FRAME_FLAG_STREAM. */
+const BINARY_FRAME_VERSION_BASIC = 1;
+/** The frame carries the name of the substream its payload belongs to. */
+export const BINARY_FRAME_FLAG_STREAM = 0x01;
+
+const HEADER_SIZE = 5;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export interface BinaryDataFrame {
+  callId: string;
+  /** Substream name; absent for the call's default stream. */
+  stream?: string;
+  /** Receivers ignore flags they do not know. BINARY_FRAME_FLAG_STREAM is derived from `stream`. */
+  flags: number;
+  data: Uint8Array;
+}
+
+export function isBinaryFrame(bytes: Uint8Array): boolean {
+  return bytes.byteLength >= HEADER_SIZE && bytes[0] === BINARY_FRAME_MAGIC;
+}
+
+export function encodeBinaryFrame(frame: BinaryDataFrame): Uint8Array {
+  const callId = textEncoder.encode(frame.callId);
+  if (callId.byteLength > 0xffff) {
+    throw new Error("Call ID is too long for a binary frame");
+  }
+  const stream = frame.stream === undefined ? null : textEncoder.encode(frame.stream);
+  if (stream && stream.byteLength > 0xff) {
+    throw new Error("Stream name is too long for a binary frame");
+  }
+
+  const streamSize = stream ? 1 + stream.byteLength : 0;
+  const bytes = new Uint8Array(HEADER_SIZE + callId.byteLength + streamSize + frame.data.byteLength);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, BINARY_FRAME_MAGIC);
+  view.setUint8(1, stream ? BINARY_FRAME_VERSION : BINARY_FRAME_VERSION_BASIC);
+  view.setUint8(2, stream ? frame.flags | BINARY_FRAME_FLAG_STREAM : frame.flags & ~BINARY_FRAME_FLAG_STREAM);
+  view.setUint16(3, callId.byteLength);
+  bytes.set(callId, HEADER_SIZE);
+  let offset = HEADER_SIZE + callId.byteLength;
+  if (stream) {
+    view.setUint8(offset, stream.byteLength);
+    bytes.set(stream, offset + 1);
+    offset += streamSize;
+  }
+  bytes.set(frame.data, offset);
+  return bytes;
+}
+
+/** Parses a data frame. The returned payload is a view into `bytes`, not a copy. */
+export function decodeBinaryFrame(bytes: Uint8Array): BinaryDataFrame {
+  if (!isBinaryFrame(bytes)) {
+    throw new Error("Not a binary data frame");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(1);
+  if (version !== BINARY_FRAME_VERSION && version !== BINARY_FRAME_VERSION_BASIC) {
+    throw new Error(`Unsupported binary frame version ${version}`);
+  }
+
+  const flags = view.getUint8(2);
+  if (flags & BINARY_FRAME_FLAG_STREAM && version !== BINARY_FRAME_VERSION) {
+    throw new Error("Version 1 binary frames cannot carry a stream name");
+  }
+  const callIdEnd = HEADER_SIZE + view.getUint16(3);
+  let payloadStart = callIdEnd;
+  let stream: string | undefined;
+  if (flags & BINARY_FRAME_FLAG_STREAM) {
+    if (callIdEnd >= bytes.byteLength) {
+      throw new Error("Truncated binary frame header");
+    }
+    payloadStart = callIdEnd + 1 + view.getUint8(callIdEnd);
+    stream = textDecoder.decode(bytes.subarray(callIdEnd + 1, payloadStart));
+  }
+  if (payloadStart > bytes.byteLength) {
+    throw new Error("Truncated binary frame header");
+  }
+
+  const frame: BinaryDataFrame = {
+    callId: textDecoder.decode(bytes.subarray(HEADER_SIZE, callIdEnd)),
+    flags,
+    data: bytes.subarray(payloadStart),
+  };
+  if (stream !== undefined) {
+    frame.stream = stream;
+  }
+  return frame;
+}
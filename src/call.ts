@@ -2,8 +2,22 @@ import { EventEmitter } from "node:events";
 import type { Duplex } from "node:stream";
 import { Readable, Writable } from "node:stream";
 import type { ReadableStream as NodeReadableStream, WritableStream as NodeWritableStream } from "node:stream/web";
-import type { CallEvents, MessagePayload } from "./types";
+import type {
+  CallEvents,
+  CallProgress,
+  CallState,
+  CallTimestamps,
+  MessagePayload,
+  StreamName,
+  StreamOptions,
+  WebStreamPair,
+} from "./types";
 import type { ProcessTunnelHandle, ProcessTunnelOptions, TrimphoneProcess } from "./process/types";
+import { CallStateError, type BusyReason } from "./errors";
+import { CompressionCounter, TrafficCounter, WireCounter, type CallStats, type ContentType, type TrafficDirection } from "./stats";
+import type { SendProgress } from "./fragmentation";
+import type { CompressionAlgorithm } from "./compression";
+import { RpcClient, createRpcProxy, type RpcClientOptions, type RpcHandler, type RpcProxy } from "./rpc";
 
 type EventKeys = keyof CallEvents;
 
@@ -12,12 +26,29 @@ export type CallDirection = "inbound" | "outbound";
 export interface CallController {
   answer(callId: string): void;
   hangup(callId: string, reason?: string): void;
-  send(callId: string, payload: MessagePayload): void;
-  getStream?(callId: string): Duplex;
-  getWebStream?(callId: string): {
-    readable: ReadableStream<Uint8Array>;
-    writable: WritableStream<Uint8Array>;
-  };
+  reject(callId: string, reason: BusyReason): void;
+  forward(callId: string, to: string): void;
+  /** Resolves once the message was delivered: acknowledged by the peer on reliable calls, handed over otherwise. */
+  send(callId: string, payload: MessagePayload): Promise<void>;
+  getStream?(callId: string, name: string, options?: StreamOptions): Duplex;
+  getWebStream?(callId: string, name: string, options?: StreamOptions): WebStreamPair;
+}
+
+/** The stream every call has; it is the one `getStream()` returns without a name. */
+export const DEFAULT_STREAM_NAME = "default";
+
+function resolveStreamArgs(
+  nameOrOptions: StreamName | StreamOptions | undefined,
+  options: StreamOptions | undefined,
+): [string, StreamOptions | undefined] {
+  if (typeof nameOrOptions === "string" || typeof nameOrOptions === "number") {
+    const name = String(nameOrOptions);
+    if (name === DEFAULT_STREAM_NAME) {
+      throw new Error(`"${DEFAULT_STREAM_NAME}" is reserved for the default stream; omit the name to use it`);
+    }
+    return [name, options];
+  }
+  return [DEFAULT_STREAM_NAME, nameOrOptions ?? options];
 }
 
 export interface CallParams {
@@ -29,8 +60,6 @@ export interface CallParams {
   controller: CallController;
 }
 
-type CallState = "pending" | "ringing" | "active" | "ended";
-
 function inferContentType(message: unknown): MessagePayload["contentType"] {
   if (Buffer.isBuffer(message) || message instanceof Uint8Array || message instanceof ArrayBuffer) {
     return "binary";
@@ -47,9 +76,18 @@ export class Call extends EventEmitter {
   readonly to?: string;
   readonly metadata?: Record<string, unknown>;
   readonly direction: CallDirection;
-  private state: CallState;
+  private callState: CallState;
+  private readonly times: CallTimestamps;
   private readonly controller: CallController;
   private readonly activeTunnels = new Set<ProcessTunnelHandle>();
+  private readonly traffic = new TrafficCounter();
+  private readonly streamBlockedTimes = new Set<() => number>();
+  private readonly compressionCounter = new CompressionCounter();
+  private readonly wire = new WireCounter();
+  private compressionAlgorithm: CompressionAlgorithm | null = null;
+  private e2eFingerprint: string | null = null;
+  private reliable = false;
+  private rpcClient: RpcClient | null = null;
 
   constructor(params: CallParams) {
     super();
@@ -59,56 +97,161 @@ export class Call extends EventEmitter {
     this.metadata = params.metadata;
     this.direction = params.direction;
     this.controller = params.controller;
-    this.state = params.direction === "inbound" ? "ringing" : "pending";
+    this.callState = params.direction === "inbound" ? "ringing" : "pending";
+    const now = Date.now();
+    this.times = {
+      createdAt: now,
+      ringingAt: params.direction === "inbound" ? now : null,
+      answeredAt: null,
+      endedAt: null,
+    };
+  }
+
+  get state(): CallState {
+    return this.callState;
+  }
+
+  /** Epoch-millisecond timestamps of the call's lifecycle milestones. */
+  get timestamps(): Readonly<CallTimestamps> {
+    return { ...this.times };
+  }
+
+  /** Milliseconds the call has been (or was) connected; 0 if it was never answered. */
+  get duration(): number {
+    if (this.times.answeredAt === null) {
+      return 0;
+    }
+    return (this.times.endedAt ?? Date.now()) - this.times.answeredAt;
+  }
+
+  /** Algorithm this side compresses payloads with, agreed through dial and answer metadata. */
+  get compression(): CompressionAlgorithm | null {
+    return this.compressionAlgorithm;
+  }
+
+  /** True once the end-to-end key exchange has finished; payloads and stream chunks are then sealed. */
+  get isEncrypted(): boolean {
+    return this.e2eFingerprint !== null;
+  }
+
+  /** SHA-256 fingerprint of the peer's end-to-end key, for comparing out of band; null until encrypted. */
+  get peerFingerprint(): string | null {
+    return this.e2eFingerprint;
+  }
+
+  /** True when frames are sequenced and acknowledged, so `send()` resolves on delivery. */
+  get isReliable(): boolean {
+    return this.reliable;
   }
 
   get isActive(): boolean {
-    return this.state === "active";
+    return this.callState === "active";
+  }
+
+  get isRinging(): boolean {
+    return this.callState === "ringing";
+  }
+
+  /** True while the transport is down and the call is waiting to be reattached. */
+  get isSuspended(): boolean {
+    return this.callState === "suspended";
   }
 
   answer(): void {
     if (this.direction !== "inbound") {
-      throw new Error("Only inbound calls can be answered");
+      throw new CallStateError("Only inbound calls can be answered", this.id);
     }
-    if (this.state !== "ringing") {
-      throw new Error("Call is not ringing");
+    if (this.callState !== "ringing") {
+      throw new CallStateError("Call is not ringing", this.id);
     }
     this.controller.answer(this.id);
-    this.state = "active";
+    this.setState("active");
+  }
+
+  /** Declines a ringing call; the caller's dial fails with BUSY and the given reason. */
+  reject(reason: BusyReason = "dnd"): void {
+    this.assertRinging("rejected");
+    this.controller.reject(this.id, reason);
+    this.receiveHangup(reason);
+  }
+
+  /** Asks the exchange to redirect a ringing call to another address. */
+  forward(to: string): void {
+    this.assertRinging("forwarded");
+    this.controller.forward(this.id, to);
+    this.receiveHangup("forwarded");
   }
 
   hangup(reason?: string): void {
-    if (this.state === "ended") {
+    if (this.callState === "ended") {
       return;
     }
     this.controller.hangup(this.id, reason);
   }
 
-  send(message: unknown, contentType?: MessagePayload["contentType"]): void {
-    if (this.state !== "active") {
-      throw new Error("Cannot send message on inactive call");
+  /**
+   * Sends a message to the peer. On reliable calls the promise resolves once the
+   * peer has acknowledged it and rejects with `UndeliveredMessageError` if the call
+   * ends first; otherwise it resolves once the message has been handed over.
+   * Delivery failures reject the promise; only sending on a call that is not
+   * active throws, with `CallStateError`.
+   */
+  send(message: unknown, contentType?: MessagePayload["contentType"]): Promise<void> {
+    if (this.callState !== "active" && this.callState !== "suspended") {
+      throw new CallStateError("Cannot send message on inactive call", this.id);
     }
     const payloadType = contentType ?? inferContentType(message);
-    this.controller.send(this.id, { data: message, contentType: payloadType });
+    const delivered = this.controller.send(this.id, { data: message, contentType: payloadType });
+    // Fire-and-forget callers must not trip unhandled rejections; awaiting callers still see them.
+    delivered.catch(() => {});
+    return delivered;
   }
 
-  getStream(): Duplex {
+  /**
+   * JSON-RPC client for the peer's handlers, such as those of `serveRpc()`. Every
+   * property other than `request`, `notify` and `onNotification` is a remote
+   * method: `await call.rpc<typeof handlers>().add([1, 2])`.
+   */
+  rpc<Methods = Record<string, RpcHandler>>(options: RpcClientOptions = {}): RpcProxy<Methods> {
+    this.rpcClient ??= new RpcClient(this);
+    return createRpcProxy<Methods>(this.rpcClient, options);
+  }
+
+  getStats(): CallStats {
+    let streamBlockedMs = 0;
+    for (const blockedTime of this.streamBlockedTimes) {
+      streamBlockedMs += blockedTime();
+    }
+    return {
+      callId: this.id,
+      ...this.traffic.snapshot(),
+      streamBlockedMs,
+      compression: { algorithm: this.compressionAlgorithm, ...this.compressionCounter.snapshot() },
+      wire: this.wire.snapshot(),
+    };
+  }
+
+  /**
+   * Returns the call's default stream, or the named substream when a name is
+   * given. Substreams are opened on first use and close independently.
+   */
+  getStream(name?: StreamName | StreamOptions, options?: StreamOptions): Duplex {
     if (!this.controller.getStream) {
       throw new Error("Node.js streams are not available; use getWebStream() instead");
     }
-    return this.controller.getStream(this.id);
+    return this.controller.getStream(this.id, ...resolveStreamArgs(name, options));
   }
 
-  getWebStream(): { readable: ReadableStream<Uint8Array>; writable: WritableStream<Uint8Array> } {
+  getWebStream(name?: StreamName | StreamOptions, options?: StreamOptions): WebStreamPair {
     if (!this.controller.getWebStream) {
       throw new Error("Web streams are not available for this call");
     }
-    return this.controller.getWebStream(this.id);
+    return this.controller.getWebStream(this.id, ...resolveStreamArgs(name, options));
   }
 
   async tunnel(process: TrimphoneProcess, options: ProcessTunnelOptions = {}): Promise<ProcessTunnelHandle> {
-    if (this.state !== "active") {
-      throw new Error("Cannot tunnel on inactive call");
+    if (this.callState !== "active") {
+      throw new CallStateError("Cannot tunnel on inactive call", this.id);
     }
 
     await process.start?.();
@@ -132,7 +275,7 @@ export class Call extends EventEmitter {
       throw new Error("Node.js stream controller not available");
     }
 
-    const stream = this.controller.getStream(this.id);
+    const stream = this.controller.getStream(this.id, DEFAULT_STREAM_NAME);
     const processStdout = Readable.fromWeb(process.stdout as unknown as NodeReadableStream<Uint8Array>);
     const processStdin = Writable.fromWeb(process.stdin as unknown as NodeWritableStream<Uint8Array>);
     const processStderr = process.stderr
@@ -159,8 +302,29 @@ export class Call extends EventEmitter {
     processStdout.pipe(stream, { end: false });
     stream.pipe(processStdin, { end: false });
 
+    // The peer finishing its writes is end of input for the process.
+    const endStdin = () => {
+      if (!processStdin.writableEnded) {
+        processStdin.end();
+      }
+    };
+    stream.once("end", endStdin);
+
     let closed = false;
 
+    // The process's output ending is end of stream for the peer, once forwarded stderr has ended as well.
+    const outputs = processStderr && forwardStderr ? [processStdout, processStderr] : [processStdout];
+    let openOutputs = outputs.length;
+    const endStream = () => {
+      openOutputs -= 1;
+      if (openOutputs === 0 && !closed && !stream.writableEnded) {
+        stream.end();
+      }
+    };
+    for (const output of outputs) {
+      output.once("end", endStream);
+    }
+
     const handle: ProcessTunnelHandle = {
       process,
       close: async (reason?: string) => {
@@ -170,9 +334,13 @@ export class Call extends EventEmitter {
         closed = true;
         this.activeTunnels.delete(handle);
 
+        for (const output of outputs) {
+          output.removeListener("end", endStream);
+        }
         processStdout.unpipe(stream);
         stream.unpipe(processStdin);
-        processStdin.end();
+        stream.removeListener("end", endStdin);
+        endStdin();
         processStdout.destroy?.();
         if (processStderr) {
           if (forwardStderr) {
@@ -210,7 +378,7 @@ export class Call extends EventEmitter {
       throw new Error("Web stream controller not available");
     }
 
-    const callStream = this.controller.getWebStream(this.id);
+    const callStream = this.controller.getWebStream(this.id, DEFAULT_STREAM_NAME);
     const processReadable = process.stdout;
     const processWritable = process.stdin;
     const processStderr = process.stderr;
@@ -225,11 +393,12 @@ export class Call extends EventEmitter {
       abort: () => callWriter.releaseLock(),
     }), { preventAbort: true, preventClose: true, preventCancel: true });
 
+    // Closing stdin when the call stream's readable ends passes the peer's EOF on to the process.
     const stdinPipe = callStream.readable.pipeTo(new WritableStream<Uint8Array>({
       write: (chunk) => processWriter.write(chunk),
-      close: () => processWriter.releaseLock(),
+      close: () => processWriter.close(),
       abort: () => processWriter.releaseLock(),
-    }), { preventAbort: true, preventClose: true, preventCancel: true });
+    }), { preventAbort: true, preventCancel: true });
 
     let stderrReader: ReadableStreamDefaultReader<Uint8Array> | null = null;
     let stderrLoop: Promise<void> | null = null;
@@ -306,23 +475,129 @@ export class Call extends EventEmitter {
     return handle;
   }
 
+  private assertRinging(action: string): void {
+    if (this.direction !== "inbound") {
+      throw new CallStateError(`Only inbound calls can be ${action}`, this.id);
+    }
+    if (this.callState !== "ringing") {
+      throw new CallStateError("Call is not ringing", this.id);
+    }
+  }
+
+  private setState(next: CallState): void {
+    const previous = this.callState;
+    if (previous === next) {
+      return;
+    }
+    this.callState = next;
+    const now = Date.now();
+    if (next === "ringing" && this.times.ringingAt === null) {
+      this.times.ringingAt = now;
+    } else if (next === "active" && this.times.answeredAt === null) {
+      this.times.answeredAt = now;
+    } else if (next === "ended") {
+      this.times.endedAt = now;
+    }
+    this.emit("stateChange", { previous, current: next });
+  }
+
   /** @internal */
   setConnected(): void {
-    this.state = "active";
+    this.setState("active");
     this.emit("connected");
   }
 
+  /** @internal */
+  receiveProgress(progress: CallProgress): void {
+    if (this.callState === "ended") {
+      return;
+    }
+    if (progress.stage === "ringing" && this.callState === "pending") {
+      this.setState("ringing");
+    }
+    this.emit("progress", progress);
+  }
+
+  /** @internal */
+  reportSendProgress(progress: SendProgress): void {
+    this.emit("sendProgress", progress);
+  }
+
+  /** @internal */
+  reportStats(): void {
+    this.emit("stats", this.getStats());
+  }
+
+  /** @internal */
+  recordTraffic(direction: TrafficDirection, contentType: ContentType, bytes: number): void {
+    this.traffic.record(direction, contentType, bytes);
+  }
+
+  /** @internal */
+  recordWireFrame(direction: TrafficDirection, bytes: number): void {
+    this.wire.record(direction, bytes);
+  }
+
+  /** @internal */
+  setCompression(algorithm: CompressionAlgorithm | null): void {
+    this.compressionAlgorithm = algorithm;
+  }
+
+  /** @internal */
+  setEncrypted(peerFingerprint: string): void {
+    this.e2eFingerprint = peerFingerprint;
+    this.emit("encrypted", peerFingerprint);
+  }
+
+  /** @internal */
+  setReliable(): void {
+    this.reliable = true;
+  }
+
+  /** @internal */
+  recordCompression(direction: TrafficDirection, bytes: number, compressedBytes: number): void {
+    this.compressionCounter.record(direction, bytes, compressedBytes);
+  }
+
+  /** @internal */
+  addStreamBlockedTimeSource(source: () => number): void {
+    this.streamBlockedTimes.add(source);
+  }
+
+  /** @internal */
+  suspend(): void {
+    if (this.callState !== "active") {
+      return;
+    }
+    this.setState("suspended");
+    this.emit("suspended");
+  }
+
+  /** @internal */
+  resume(): void {
+    if (this.callState !== "suspended") {
+      return;
+    }
+    this.setState("active");
+    this.emit("resumed");
+  }
+
   /** @internal */
   receiveMessage(message: unknown): void {
     this.emit("message", message);
   }
 
+  /** @internal */
+  receiveStream(name: string, stream: Duplex | WebStreamPair): void {
+    this.emit("stream", name, stream);
+  }
+
   /** @internal */
   receiveHangup(reason?: string): void {
-    if (this.state === "ended") {
+    if (this.callState === "ended") {
       return;
     }
-    this.state = "ended";
+    this.setState("ended");
     this.emit("hangup", reason);
   }
 
@@ -0,0 +1,81 @@
+/** SystemX protocol revision spoken by this client, advertised on REGISTER. */
+export const PROTOCOL_VERSION = 2;
+
+/** Revision assumed for exchanges whose REGISTERED frame carries no version. */
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+/** Optional protocol features that are only used when both sides support them. */
+export type TrimphoneFeature =
+  | "binary_frames"
+  | "resume"
+  | "acks"
+  | "presence"
+  | "flow_control"
+  | "streams"
+  | "fragments"
+  | "reject";
+
+/** Features this client implements and offers during the REGISTER handshake. */
+export const CLIENT_FEATURES: readonly TrimphoneFeature[] = [
+  "resume",
+  "acks",
+  "presence",
+  "flow_control",
+  "streams",
+  "fragments",
+  "reject",
+];
+
+/**
+ * Features SystemX offered before the REGISTER handshake existed. Exchanges that
+ * answer without a feature list still support them.
+ */
+export const LEGACY_FEATURES: readonly TrimphoneFeature[] = ["resume", "presence"];
+
+/**
+ * Features that change the frames one peer sends the other, so the exchange
+ * accepting them is not enough: the other end of the call has to handle them too.
+ */
+export type PeerFeature = Extract<TrimphoneFeature, "fragments" | "flow_control">;
+
+/** Peer features this client can use on a call, in the order it lists them. */
+export const PEER_FEATURES: readonly PeerFeature[] = ["fragments", "flow_control"];
+
+/** Call metadata key under which each side of a call lists the peer features it uses. */
+export const PEER_FEATURES_METADATA_KEY = "peer_features";
+
+export interface ExchangeCapabilities {
+  /** Protocol revision reported by the exchange. */
+  protocolVersion: number;
+  /** Features both this client and the exchange support. */
+  features: TrimphoneFeature[];
+  /** Wire codec used after registration; "json" unless the exchange accepted another. */
+  codec: string;
+}
+
+/**
+ * Intersects the client's offer with what the exchange answered in REGISTERED.
+ * Exchanges that predate the handshake answer with none of the fields and get
+ * the legacy features and the JSON codec.
+ */
+export function negotiateCapabilities(
+  offered: { features: readonly TrimphoneFeature[]; codecs?: readonly string[] },
+  answer: { protocol_version?: unknown; features?: unknown; codec?: unknown },
+): ExchangeCapabilities {
+  const protocolVersion = typeof answer.protocol_version === "number" ? answer.protocol_version : LEGACY_PROTOCOL_VERSION;
+  const accepted: readonly unknown[] = Array.isArray(answer.features) ? answer.features : LEGACY_FEATURES;
+  const codec = typeof answer.codec === "string" && offered.codecs?.includes(answer.codec) ? answer.codec : "json";
+  return {
+    protocolVersion,
+    features: offered.features.filter((feature) => accepted.includes(feature)),
+    codec,
+  };
+}
+
+/**
+ * Keeps the offered peer features that the other side listed in its call metadata.
+ * Peers that list none, such as older clients, get none of them.
+ */
+export function agreePeerFeatures(offered: readonly PeerFeature[], listed: unknown): PeerFeature[] {
+  return Array.isArray(listed) ? offered.filter((feature) => listed.includes(feature)) : [];
+}
@@ -0,0 +1,44 @@
+import { encodeBase64 } from "./utils";
+
+/**
+ * Serialises SystemX frames for the transport. The client always registers with
+ * JSON and switches to another codec only once the exchange has accepted it.
+ */
+export interface WireCodec {
+  /** Identifier offered to the exchange in REGISTER, e.g. "json" or "msgpack". */
+  readonly name: string;
+  /** True when frames are encoded as bytes; such codecs carry binary MSG payloads raw. */
+  readonly binary: boolean;
+  encode(frame: unknown): string | Uint8Array;
+  decode(raw: string | Uint8Array): unknown;
+}
+
+const textDecoder = new TextDecoder();
+
+/** The original text protocol. Byte arrays inside frames are sent as base64 strings. */
+export const jsonCodec: WireCodec = {
+  name: "json",
+  binary: false,
+  encode(frame) {
+    return JSON.stringify(frame, function (this: Record<string, unknown>, key, value) {
+      // Read the holder so Buffers are caught before their toJSON() runs.
+      const original = this[key];
+      return original instanceof Uint8Array ? encodeBase64(original) : value;
+    });
+  },
+  decode(raw) {
+    return JSON.parse(typeof raw === "string" ? raw : textDecoder.decode(raw));
+  },
+};
+
+/** True when a byte frame holds JSON text, which text frames decode to on some WebSocket stacks. */
+export function isJsonText(bytes: Uint8Array): boolean {
+  for (const byte of bytes) {
+    // Skip JSON whitespace.
+    if (byte === 0x20 || byte === 0x09 || byte === 0x0a || byte === 0x0d) {
+      continue;
+    }
+    return byte === 0x7b;
+  }
+  return false;
+}
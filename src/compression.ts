@@ -0,0 +1,74 @@
+/**
+ * Per-call payload compression. The caller offers algorithms in its DIAL
+ * metadata, the callee picks one and names it in its ANSWER metadata, and each
+ * compressed MSG carries a `compression` field so the receiver knows to inflate
+ * it. Node uses zlib; browsers use `CompressionStream` (see ./web/compression).
+ */
+import { deflate, gunzip, gzip, inflate, type ZlibOptions } from "node:zlib";
+
+export type CompressionAlgorithm = "deflate" | "gzip";
+
+/** Algorithms this client can compress and decompress, in its order of preference. */
+export const COMPRESSION_ALGORITHMS: readonly CompressionAlgorithm[] = ["deflate", "gzip"];
+
+/** Payloads smaller than this are sent as-is unless `compressionThresholdBytes` says otherwise. */
+export const DEFAULT_COMPRESSION_THRESHOLD_BYTES = 1024;
+
+/** Dial and answer metadata key used to negotiate compression. */
+export const COMPRESSION_METADATA_KEY = "compression";
+
+export interface PayloadCompressor {
+  compress(algorithm: CompressionAlgorithm, bytes: Uint8Array): Promise<Uint8Array>;
+  /** Resolves to null, without inflating further, once the output would exceed `maxOutputBytes`. */
+  decompress(algorithm: CompressionAlgorithm, bytes: Uint8Array, maxOutputBytes: number): Promise<Uint8Array | null>;
+}
+
+export function isCompressionAlgorithm(value: unknown): value is CompressionAlgorithm {
+  return typeof value === "string" && (COMPRESSION_ALGORITHMS as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the first algorithm in `offered` (a single name or a preference list from
+ * the peer's metadata) that this side accepts, or null when there is none.
+ */
+export function selectCompression(offered: unknown, accepted: readonly CompressionAlgorithm[]): CompressionAlgorithm | null {
+  const candidates = Array.isArray(offered) ? offered : [offered];
+  for (const candidate of candidates) {
+    if (isCompressionAlgorithm(candidate) && accepted.includes(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function run(
+  method: (input: Uint8Array, options: ZlibOptions, callback: (error: Error | null, result: Buffer) => void) => void,
+  bytes: Uint8Array,
+  options: ZlibOptions = {},
+): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    method(bytes, options, (error, result) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(new Uint8Array(result.buffer, result.byteOffset, result.byteLength));
+      }
+    });
+  });
+}
+
+export const nodeCompressor: PayloadCompressor = {
+  compress(algorithm, bytes) {
+    return run(algorithm === "gzip" ? gzip : deflate, bytes);
+  },
+  async decompress(algorithm, bytes, maxOutputBytes) {
+    try {
+      return await run(algorithm === "gzip" ? gunzip : inflate, bytes, { maxOutputLength: maxOutputBytes });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+        return null;
+      }
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,177 @@
+/**
+ * End-to-end encryption of call payloads. Each side sends an ephemeral X25519
+ * public key in its first MSG (`e2e: "key"`); both derive one AES-256-GCM key
+ * per direction from the shared secret with HKDF, and every later payload is
+ * sent sealed (`e2e: "sealed"`) as nonce | ciphertext. The nonce carries a
+ * per-direction message counter, so a replayed or reordered payload is refused.
+ * Only WebCrypto is used, so the same code runs in Node and browsers; it is looked
+ * up when the first session starts, so clients that never encrypt do not need it.
+ */
+
+/** Key agreement and cipher suite; also the value of the `e2e` dial and answer metadata. */
+export const E2E_SCHEME = "x25519-aes-256-gcm";
+
+/** Dial and answer metadata key used to ask for an encrypted call. */
+export const E2E_METADATA_KEY = "e2e";
+
+/** How long to wait for the peer's key unless `encryptionTimeoutMs` says otherwise. */
+export const DEFAULT_E2E_HANDSHAKE_TIMEOUT_MS = 10_000;
+
+/** Hangup reason when a sealed payload fails authentication, or a plaintext one arrives after the handshake. */
+export const E2E_AUTH_FAILED = "e2e_auth_failed";
+
+/** Hangup reason when the key exchange times out or the peer's key is unusable. */
+export const E2E_HANDSHAKE_FAILED = "e2e_handshake_failed";
+
+const NONCE_BYTES = 12;
+/** The counter fills the last eight nonce bytes; the first four stay zero. */
+const NONCE_COUNTER_OFFSET = 4;
+const PUBLIC_KEY_BYTES = 32;
+
+const textEncoder = new TextEncoder();
+
+let subtleCrypto: Promise<SubtleCrypto> | null = null;
+
+/** The global WebCrypto where there is one (browsers, Node 19+), else Node's `webcrypto` export. */
+function subtle(): Promise<SubtleCrypto> {
+  subtleCrypto ??= (async () => {
+    if (globalThis.crypto?.subtle) {
+      return globalThis.crypto.subtle;
+    }
+    try {
+      const { webcrypto } = await import("node:crypto");
+      return webcrypto.subtle as SubtleCrypto;
+    } catch {
+      throw new Error("End-to-end encryption needs WebCrypto, which this runtime does not provide");
+    }
+  })();
+  return subtleCrypto;
+}
+
+/** Binds a sealed payload to its call, content type and stream so it cannot be replayed elsewhere. */
+export function e2eAssociatedData(callId: string, contentType: string, stream: string | undefined): Uint8Array {
+  return textEncoder.encode(`${E2E_SCHEME}\n${callId}\n${contentType}\n${stream ?? ""}`);
+}
+
+/** Colon-separated SHA-256 of a public key, for comparing keys out of band. */
+export async function keyFingerprint(publicKey: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await (await subtle()).digest("SHA-256", publicKey as BufferSource));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join(":");
+}
+
+/** One call's key exchange and the directional keys it produces. */
+export class E2eSession {
+  private readonly callId: string;
+  private readonly keyPair: Promise<CryptoKeyPair>;
+  private sendKey: CryptoKey | null = null;
+  private receiveKey: CryptoKey | null = null;
+  private fingerprint: string | null = null;
+  private sentCount = 0n;
+  private receivedCount = 0n;
+  private settle: (established: boolean) => void = () => {};
+  /** Resolves true once both keys are in place, or false if the session was closed first. */
+  readonly established: Promise<boolean>;
+
+  constructor(callId: string) {
+    this.callId = callId;
+    this.keyPair = subtle().then(
+      (crypto) => crypto.generateKey({ name: "X25519" }, false, ["deriveBits"]) as Promise<CryptoKeyPair>,
+    );
+    // Surfaced by publicKey() and accept(); not an unhandled rejection when neither runs.
+    this.keyPair.catch(() => undefined);
+    this.established = new Promise((resolve) => {
+      this.settle = resolve;
+    });
+  }
+
+  get isEstablished(): boolean {
+    return this.receiveKey !== null;
+  }
+
+  get peerFingerprint(): string | null {
+    return this.fingerprint;
+  }
+
+  async publicKey(): Promise<Uint8Array> {
+    const { publicKey } = await this.keyPair;
+    return new Uint8Array(await (await subtle()).exportKey("raw", publicKey));
+  }
+
+  /** Derives the session keys from the peer's public key. Throws if the key is unusable or already set. */
+  async accept(peerPublicKey: Uint8Array): Promise<void> {
+    if (this.receiveKey || peerPublicKey.byteLength !== PUBLIC_KEY_BYTES) {
+      throw new Error("Unexpected end-to-end key");
+    }
+    const { privateKey } = await this.keyPair;
+    const crypto = await subtle();
+    const peerKey = await crypto.importKey("raw", peerPublicKey as BufferSource, { name: "X25519" }, false, []);
+    const secret = await crypto.deriveBits({ name: "X25519", public: peerKey }, privateKey, 256);
+    const hkdfKey = await crypto.importKey("raw", secret, "HKDF", false, ["deriveKey"]);
+
+    // Each direction gets its own key, labelled with the sender's public key.
+    const derive = (senderKey: Uint8Array, usage: KeyUsage) =>
+      crypto.deriveKey(
+        { name: "HKDF", hash: "SHA-256", salt: textEncoder.encode(this.callId), info: concat(textEncoder.encode(E2E_SCHEME), senderKey) },
+        hkdfKey,
+        { name: "AES-GCM", length: 256 },
+        false,
+        [usage],
+      );
+    const ownPublicKey = await this.publicKey();
+    this.sendKey = await derive(ownPublicKey, "encrypt");
+    this.receiveKey = await derive(peerPublicKey, "decrypt");
+    this.fingerprint = await keyFingerprint(peerPublicKey);
+    this.settle(true);
+  }
+
+  async seal(plaintext: Uint8Array, associatedData: Uint8Array): Promise<Uint8Array> {
+    if (!this.sendKey) {
+      throw new Error("End-to-end keys are not established");
+    }
+    // Keys are ephemeral and per direction, so a counter never repeats a nonce under the same key.
+    this.sentCount += 1n;
+    const nonce = new Uint8Array(NONCE_BYTES);
+    new DataView(nonce.buffer).setBigUint64(NONCE_COUNTER_OFFSET, this.sentCount);
+    const ciphertext = await (await subtle()).encrypt(
+      { name: "AES-GCM", iv: nonce, additionalData: associatedData as BufferSource },
+      this.sendKey,
+      plaintext as BufferSource,
+    );
+    return concat(nonce, new Uint8Array(ciphertext));
+  }
+
+  /**
+   * Decrypts a sealed payload; rejects when it was not sealed by the peer for this context,
+   * or when its counter does not follow the last payload opened.
+   */
+  async open(sealed: Uint8Array, associatedData: Uint8Array): Promise<Uint8Array> {
+    if (!this.receiveKey || sealed.byteLength < NONCE_BYTES) {
+      throw new Error("Cannot open end-to-end payload");
+    }
+    const nonce = sealed.subarray(0, NONCE_BYTES);
+    const count = new DataView(nonce.buffer, nonce.byteOffset, NONCE_BYTES).getBigUint64(NONCE_COUNTER_OFFSET);
+    if (count <= this.receivedCount) {
+      throw new Error("Replayed end-to-end payload");
+    }
+    const plaintext = await (await subtle()).decrypt(
+      { name: "AES-GCM", iv: nonce as BufferSource, additionalData: associatedData as BufferSource },
+      this.receiveKey,
+      sealed.subarray(NONCE_BYTES) as BufferSource,
+    );
+    // Only advanced once authenticated, so a forged counter cannot block later payloads.
+    this.receivedCount = count;
+    return new Uint8Array(plaintext);
+  }
+
+  /** Releases anything waiting for the handshake. */
+  close(): void {
+    this.settle(false);
+  }
+}
+
+function concat(first: Uint8Array, second: Uint8Array): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(first.byteLength + second.byteLength);
+  bytes.set(first);
+  bytes.set(second, first.byteLength);
+  return bytes;
+}
@@ -0,0 +1,143 @@
+export type FailoverStrategy = "ordered" | "round-robin" | "random" | "sticky";
+
+export interface EndpointHealth {
+  url: string;
+  failures: number;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  /** Epoch milliseconds before which the endpoint is considered backed off. */
+  retryAt: number;
+}
+
+export interface EndpointPoolOptions {
+  strategy?: FailoverStrategy;
+  /** Initial per-endpoint backoff after a failure; doubles on each consecutive failure. */
+  backoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+/**
+ * Tracks the health of each configured SystemX endpoint and decides which one
+ * to try next according to the configured failover strategy.
+ */
+export class EndpointPool {
+  private readonly endpoints: EndpointHealth[];
+  private readonly strategy: FailoverStrategy;
+  private readonly backoffMs: number;
+  private readonly maxBackoffMs: number;
+  private cursor = -1;
+  private lastGood: number | null = null;
+
+  constructor(urls: string[], options: EndpointPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error("At least one SystemX endpoint URL is required");
+    }
+    this.endpoints = urls.map((url) => ({
+      url,
+      failures: 0,
+      lastFailureAt: null,
+      lastSuccessAt: null,
+      retryAt: 0,
+    }));
+    this.strategy = options.strategy ?? "ordered";
+    this.backoffMs = options.backoffMs ?? 1_000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 30_000;
+  }
+
+  get size(): number {
+    return this.endpoints.length;
+  }
+
+  /**
+   * Picks the next endpoint to attempt. Endpoints in `exclude` are skipped so a
+   * single connection pass never tries the same URL twice. When every remaining
+   * endpoint is backed off, the one that recovers soonest is returned.
+   */
+  next(exclude: ReadonlySet<string> = new Set()): string {
+    const now = Date.now();
+    const remaining = this.endpoints
+      .map((endpoint, index) => ({ endpoint, index }))
+      .filter(({ endpoint }) => !exclude.has(endpoint.url));
+
+    if (remaining.length === 0) {
+      throw new Error("No SystemX endpoints left to try");
+    }
+
+    let candidates = remaining.filter(({ endpoint }) => endpoint.retryAt <= now);
+    if (candidates.length === 0) {
+      const soonest = remaining.reduce((best, entry) => (entry.endpoint.retryAt < best.endpoint.retryAt ? entry : best));
+      candidates = [soonest];
+    }
+
+    const chosen = this.choose(candidates.map(({ index }) => index));
+    this.cursor = chosen;
+    return this.endpoints[chosen].url;
+  }
+
+  markSuccess(url: string): void {
+    const index = this.indexOf(url);
+    if (index === -1) {
+      return;
+    }
+    const endpoint = this.endpoints[index];
+    endpoint.failures = 0;
+    endpoint.retryAt = 0;
+    endpoint.lastSuccessAt = Date.now();
+    this.lastGood = index;
+  }
+
+  markFailure(url: string): void {
+    const index = this.indexOf(url);
+    if (index === -1) {
+      return;
+    }
+    const endpoint = this.endpoints[index];
+    const now = Date.now();
+    endpoint.failures += 1;
+    endpoint.lastFailureAt = now;
+    const delay = Math.min(this.backoffMs * 2 ** (endpoint.failures - 1), this.maxBackoffMs);
+    endpoint.retryAt = now + delay;
+    if (this.lastGood === index) {
+      this.lastGood = null;
+    }
+  }
+
+  snapshot(): EndpointHealth[] {
+    return this.endpoints.map((endpoint) => ({ ...endpoint }));
+  }
+
+  private choose(indices: number[]): number {
+    switch (this.strategy) {
+      case "random":
+        return indices[Math.floor(Math.random() * indices.length)];
+
+      case "round-robin":
+        return this.firstAfter(this.cursor, indices);
+
+      case "sticky":
+        if (this.lastGood !== null && indices.includes(this.lastGood)) {
+          return this.lastGood;
+        }
+        return this.firstAfter(this.cursor, indices);
+
+      case "ordered":
+      default:
+        return indices[0];
+    }
+  }
+
+  private firstAfter(position: number, indices: number[]): number {
+    const total = this.endpoints.length;
+    for (let offset = 1; offset <= total; offset += 1) {
+      const index = (position + offset + total) % total;
+      if (indices.includes(index)) {
+        return index;
+      }
+    }
+    return indices[0];
+  }
+
+  private indexOf(url: string): number {
+    return this.endpoints.findIndex((endpoint) => endpoint.url === url);
+  }
+}
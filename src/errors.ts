@@ -0,0 +1,162 @@
+export type BusyReason = "already_in_call" | "dnd" | "offline" | "no_such_address" | "no_answer" | "forbidden";
+
+const BUSY_REASONS: ReadonlySet<string> = new Set(["already_in_call", "dnd", "offline", "no_such_address", "no_answer", "forbidden"]);
+const RETRYABLE_BUSY_REASONS: ReadonlySet<string> = new Set(["already_in_call", "offline", "no_answer"]);
+
+export function isBusyReason(value: unknown): value is BusyReason {
+  return typeof value === "string" && BUSY_REASONS.has(value);
+}
+
+export interface TrimphoneErrorOptions {
+  /** SystemX address the failure relates to (dialled, registered, or remote party). */
+  address?: string;
+  callId?: string;
+  /** Whether repeating the operation later may succeed. */
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/** Base class for errors raised by the Trimphone client. */
+export class TrimphoneError extends Error {
+  readonly address?: string;
+  readonly callId?: string;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: TrimphoneErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.address = options.address;
+    this.callId = options.callId;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/** Raised when the exchange answers a dial with BUSY. */
+export class DialBusyError extends TrimphoneError {
+  readonly reason: BusyReason;
+
+  constructor(address: string, reason: BusyReason) {
+    super(`Call failed: ${reason}`, { address, retryable: RETRYABLE_BUSY_REASONS.has(reason) });
+    this.reason = reason;
+  }
+}
+
+/** Raised when a dial receives neither CONNECTED nor BUSY within `DialOptions.timeoutMs`. */
+export class DialTimeoutError extends TrimphoneError {
+  readonly timeoutMs: number;
+
+  constructor(address: string, timeoutMs: number) {
+    super(`Dial to ${address} timed out after ${timeoutMs}ms`, { address, retryable: true });
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** Raised when a dial is cancelled through `DialOptions.signal`. */
+export class DialAbortedError extends TrimphoneError {
+  constructor(address: string) {
+    super(`Dial to ${address} was cancelled`, { address });
+  }
+}
+
+/** Raised when the exchange refuses a REGISTER. */
+export class RegistrationError extends TrimphoneError {
+  readonly reason: string;
+
+  constructor(address: string, reason: string) {
+    super(`Registration failed: ${reason}`, { address });
+    this.reason = reason;
+  }
+}
+
+/** Raised when an operation needs a live connection that is not (or no longer) there. */
+export class DisconnectedError extends TrimphoneError {
+  constructor(message = "Disconnected", options: Omit<TrimphoneErrorOptions, "retryable"> = {}) {
+    super(message, { ...options, retryable: true });
+  }
+}
+
+/** Raised for frames from the exchange that cannot be parsed or lack required fields. */
+export class ProtocolError extends TrimphoneError {
+  /** The offending frame (parsed object, or raw text when parsing failed). */
+  readonly frame: unknown;
+
+  constructor(message: string, frame: unknown, options: TrimphoneErrorOptions = {}) {
+    super(message, options);
+    this.frame = frame;
+  }
+}
+
+/** Raised when a call operation is not valid in the call's current state. */
+export class CallStateError extends TrimphoneError {
+  constructor(message: string, callId: string) {
+    super(message, { callId });
+  }
+}
+
+/** Rejects a reliable `call.send()` when the call ends before the peer acknowledged the message. */
+export class UndeliveredMessageError extends TrimphoneError {
+  readonly reason?: string;
+
+  constructor(
+    callId: string,
+    reason?: string,
+    message = `Call ended before the message was acknowledged${reason ? ` (${reason})` : ""}`,
+  ) {
+    super(message, { callId });
+    this.reason = reason;
+  }
+}
+
+/** Raised by `send()` when the outbound buffer is full and its overflow policy is "error". */
+export class OutboundBufferFullError extends TrimphoneError {
+  readonly maxFrames: number;
+
+  constructor(maxFrames: number) {
+    super(`Outbound buffer is full (${maxFrames} frames)`, { retryable: true });
+    this.maxFrames = maxFrames;
+  }
+}
+
+/** Raised when a fragmented message grows past `maxMessageBytes` before it is complete. */
+export class MessageTooLargeError extends TrimphoneError {
+  readonly maxBytes: number;
+
+  constructor(callId: string, maxBytes: number) {
+    super(`Incoming message exceeds ${maxBytes} bytes`, { callId });
+    this.maxBytes = maxBytes;
+  }
+}
+
+/** Error response to an RPC request; handlers throw it to choose the code and data sent back. */
+export class RpcError extends TrimphoneError {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown, options: TrimphoneErrorOptions = {}) {
+    super(message, options);
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/** Rejects an RPC request that received neither a response nor a partial result within its timeout. */
+export class RpcTimeoutError extends TrimphoneError {
+  readonly method: string;
+  readonly timeoutMs: number;
+
+  constructor(method: string, timeoutMs: number, callId: string) {
+    super(`RPC request ${method} timed out after ${timeoutMs}ms`, { callId, retryable: true });
+    this.method = method;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** Rejects an RPC request cancelled through `RpcRequestOptions.signal`. */
+export class RpcCancelledError extends TrimphoneError {
+  readonly method: string;
+
+  constructor(method: string, callId: string) {
+    super(`RPC request ${method} was cancelled`, { callId });
+    this.method = method;
+  }
+}
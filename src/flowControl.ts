@@ -0,0 +1,83 @@
+/**
+ * Credit-based flow control for tunnel streams. The receiving side grants byte
+ * credits with CREDIT frames as its reader consumes data; the sending side
+ * stops writing when it has none left. A peer that never grants credits is
+ * treated as unlimited, so flow control only engages when both sides use it.
+ */
+
+/** Receive window used when neither the client nor the call overrides it. */
+export const DEFAULT_STREAM_WINDOW_BYTES = 256 * 1024;
+
+/** Sender-side credit balance plus the time spent waiting for more. */
+export class SendCredits {
+  private available: number | null = null;
+  private blockedSince: number | null = null;
+  private blockedTotal = 0;
+
+  /** Adds credits granted by the peer. The first grant switches the sender into windowed mode. */
+  grant(bytes: number): void {
+    this.available = (this.available ?? 0) + bytes;
+    if (this.available > 0 && this.blockedSince !== null) {
+      this.blockedTotal += Date.now() - this.blockedSince;
+      this.blockedSince = null;
+    }
+  }
+
+  /**
+   * Reserves up to `wanted` bytes and returns how many may be sent now. Returns
+   * 0 and starts the blocked timer when the window is exhausted.
+   */
+  take(wanted: number): number {
+    if (this.available === null) {
+      return wanted;
+    }
+    const granted = Math.min(wanted, this.available);
+    this.available -= granted;
+    if (granted === 0 && wanted > 0 && this.blockedSince === null) {
+      this.blockedSince = Date.now();
+    }
+    return granted;
+  }
+
+  /** Milliseconds spent waiting for credits, including the current wait. */
+  get blockedMs(): number {
+    return this.blockedTotal + (this.blockedSince === null ? 0 : Date.now() - this.blockedSince);
+  }
+}
+
+/**
+ * Receiver-side bookkeeping: grants the initial window on open and returns
+ * consumed bytes to the sender in batches of half a window.
+ */
+export class ReceiveWindow {
+  private readonly windowBytes: number;
+  private readonly sendCredit: (bytes: number) => void;
+  private pendingGrant = 0;
+
+  constructor(windowBytes: number, sendCredit: (bytes: number) => void) {
+    this.windowBytes = windowBytes;
+    this.sendCredit = sendCredit;
+  }
+
+  get enabled(): boolean {
+    return this.windowBytes > 0;
+  }
+
+  open(): void {
+    if (this.enabled) {
+      this.sendCredit(this.windowBytes);
+    }
+  }
+
+  consumed(bytes: number): void {
+    if (!this.enabled) {
+      return;
+    }
+    this.pendingGrant += bytes;
+    if (this.pendingGrant >= this.windowBytes / 2) {
+      const grant = this.pendingGrant;
+      this.pendingGrant = 0;
+      this.sendCredit(grant);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Splitting of large call messages into several MSG frames and reassembly on
+ * the receiving side. Fragments always carry UTF-8 or raw bytes, whatever the
+ * message's content type, so text is never cut inside a character.
+ */
+
+/** Largest payload sent in one MSG frame unless `maxFrameBytes` says otherwise. */
+export const DEFAULT_MAX_FRAME_BYTES = 1024 * 1024;
+/** Largest reassembled message accepted unless `maxMessageBytes` says otherwise. */
+export const DEFAULT_MAX_MESSAGE_BYTES = 64 * 1024 * 1024;
+/** How long a partially received message is kept waiting for its remaining fragments. */
+export const DEFAULT_PARTIAL_MESSAGE_TTL_MS = 60_000;
+
+/** How many dropped message IDs are remembered so their remaining fragments are ignored. */
+const MAX_REJECTED_MESSAGES = 256;
+
+export interface SendProgress {
+  /** Identifies the fragmented message; matches `fragment_id` on the wire. */
+  messageId: string;
+  sentBytes: number;
+  totalBytes: number;
+}
+
+export interface MessageFragment {
+  id: string;
+  index: number;
+  count: number;
+  data: Uint8Array;
+}
+
+export type ReassemblyResult =
+  | { status: "incomplete" }
+  | { status: "complete"; data: Uint8Array }
+  | { status: "too_large"; size: number }
+  | { status: "invalid" };
+
+export function splitPayload(bytes: Uint8Array, maxFragmentBytes: number): Uint8Array[] {
+  const fragments: Uint8Array[] = [];
+  for (let offset = 0; offset < bytes.byteLength; offset += maxFragmentBytes) {
+    fragments.push(bytes.subarray(offset, offset + maxFragmentBytes));
+  }
+  return fragments;
+}
+
+interface PartialMessage {
+  parts: Array<Uint8Array | undefined>;
+  received: number;
+  size: number;
+  startedAt: number;
+}
+
+/**
+ * Collects the fragments of one call's messages; fragments of different messages may interleave.
+ * `maxMessageBytes` bounds each message and everything buffered for the call at once.
+ */
+export class FragmentAssembler {
+  private readonly maxMessageBytes: number;
+  private readonly partialTtlMs: number;
+  private readonly partial = new Map<string, PartialMessage>();
+  /** Messages dropped for exceeding the size limit or expiring; their remaining fragments are ignored. */
+  private readonly rejected = new Set<string>();
+  private bufferedBytes = 0;
+
+  constructor(maxMessageBytes: number, partialTtlMs = DEFAULT_PARTIAL_MESSAGE_TTL_MS) {
+    this.maxMessageBytes = maxMessageBytes;
+    this.partialTtlMs = partialTtlMs;
+  }
+
+  add(fragment: MessageFragment): ReassemblyResult {
+    const { id, index, count, data } = fragment;
+    // Every fragment carries at least one byte, so more fragments than that cannot make a valid message.
+    const validCount = Number.isInteger(count) && count >= 1 && count <= this.maxMessageBytes;
+    if (!validCount || !Number.isInteger(index) || index < 0 || index >= count) {
+      return { status: "invalid" };
+    }
+    this.expireStale();
+    if (this.rejected.has(id)) {
+      return { status: "incomplete" };
+    }
+
+    let message = this.partial.get(id);
+    if (!message) {
+      message = { parts: new Array(count), received: 0, size: 0, startedAt: Date.now() };
+      this.partial.set(id, message);
+    }
+    if (message.parts.length !== count) {
+      return { status: "invalid" };
+    }
+    if (message.parts[index] !== undefined) {
+      return { status: "incomplete" };
+    }
+
+    if (this.bufferedBytes + data.byteLength > this.maxMessageBytes) {
+      const size = message.size + data.byteLength;
+      this.drop(id, message);
+      return { status: "too_large", size };
+    }
+    message.size += data.byteLength;
+    this.bufferedBytes += data.byteLength;
+    message.parts[index] = data;
+    message.received += 1;
+    if (message.received < count) {
+      return { status: "incomplete" };
+    }
+
+    this.partial.delete(id);
+    this.bufferedBytes -= message.size;
+    const assembled = new Uint8Array(message.size);
+    let offset = 0;
+    for (const part of message.parts as Uint8Array[]) {
+      assembled.set(part, offset);
+      offset += part.byteLength;
+    }
+    return { status: "complete", data: assembled };
+  }
+
+  /** Drops messages whose remaining fragments did not arrive in time. */
+  private expireStale() {
+    const cutoff = Date.now() - this.partialTtlMs;
+    for (const [id, message] of this.partial) {
+      if (message.startedAt > cutoff) {
+        // Insertion order is start order, so the rest are newer.
+        break;
+      }
+      this.drop(id, message);
+    }
+  }
+
+  private drop(id: string, message: PartialMessage) {
+    this.partial.delete(id);
+    this.bufferedBytes -= message.size;
+    if (this.rejected.size >= MAX_REJECTED_MESSAGES) {
+      this.rejected.delete(this.rejected.values().next().value as string);
+    }
+    this.rejected.add(id);
+  }
+}
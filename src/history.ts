@@ -0,0 +1,96 @@
+import type { CallDirection } from "./call";
+
+/** Who ended a call: this client, the remote party (or exchange), or the client on its own accord. */
+export type HangupInitiator = "local" | "remote" | "system";
+
+/** Summary of a finished call, emitted as `callRecord` and appended to the history store. */
+export interface CallDetailRecord {
+  id: string;
+  direction: CallDirection;
+  from?: string;
+  to?: string;
+  metadata?: Record<string, unknown>;
+  startedAt: number;
+  answeredAt: number | null;
+  endedAt: number;
+  /** Connected time in milliseconds; 0 for calls that were never answered. */
+  durationMs: number;
+  hangupReason?: string;
+  initiator: HangupInitiator;
+  bytesIn: number;
+  bytesOut: number;
+}
+
+export interface HistoryQuery {
+  /** Matches calls where this address is either party. */
+  address?: string;
+  /** Only calls that ended at or after this time (epoch milliseconds or Date). */
+  since?: number | Date;
+  direction?: CallDirection;
+  limit?: number;
+}
+
+/** Persists call detail records. Queries return the most recent calls first. */
+export interface HistoryStore {
+  append(record: CallDetailRecord): void | Promise<void>;
+  query(query?: HistoryQuery): Promise<CallDetailRecord[]>;
+  clear?(): void | Promise<void>;
+}
+
+export function matchesHistoryQuery(record: CallDetailRecord, query: HistoryQuery): boolean {
+  if (query.direction && record.direction !== query.direction) {
+    return false;
+  }
+  if (query.address && record.from !== query.address && record.to !== query.address) {
+    return false;
+  }
+  if (query.since !== undefined && record.endedAt < toEpoch(query.since)) {
+    return false;
+  }
+  return true;
+}
+
+/** Filters, orders newest-first and limits records for stores without native indexing. */
+export function applyHistoryQuery(records: Iterable<CallDetailRecord>, query: HistoryQuery = {}): CallDetailRecord[] {
+  const matched = Array.from(records).filter((record) => matchesHistoryQuery(record, query));
+  matched.sort((a, b) => b.endedAt - a.endedAt);
+  return query.limit !== undefined ? matched.slice(0, query.limit) : matched;
+}
+
+export function toEpoch(value: number | Date): number {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+export interface MemoryHistoryStoreOptions {
+  /** Oldest records are discarded beyond this many. Defaults to 1000. */
+  maxRecords?: number;
+}
+
+/** Ring buffer of the most recent call records; the default history store. */
+export class MemoryHistoryStore implements HistoryStore {
+  private readonly records: CallDetailRecord[] = [];
+  private readonly maxRecords: number;
+
+  constructor(options: MemoryHistoryStoreOptions = {}) {
+    this.maxRecords = options.maxRecords ?? 1000;
+  }
+
+  get size(): number {
+    return this.records.length;
+  }
+
+  append(record: CallDetailRecord): void {
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) {
+      this.records.splice(0, this.records.length - this.maxRecords);
+    }
+  }
+
+  async query(query: HistoryQuery = {}): Promise<CallDetailRecord[]> {
+    return applyHistoryQuery(this.records, query);
+  }
+
+  clear(): void {
+    this.records.length = 0;
+  }
+}
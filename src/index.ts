@@ -3,11 +3,32 @@ import * as browserProcessCatalog from "./process/browser";
 export const browserProcesses = browserProcessCatalog;
 export { Trimphone } from "./trimphone";
 export { Call } from "./call";
-export { TunnelStream } from "./tunnelStream";
+export { TunnelStream, type TunnelStreamOptions } from "./tunnelStream";
+export { DEFAULT_STREAM_WINDOW_BYTES } from "./flowControl";
+export * from "./errors";
+export * from "./middleware";
+export * from "./acl";
+export * from "./capabilities";
+export * from "./codec";
+export * from "./msgpack";
+export * from "./binaryFrame";
+export * from "./fragmentation";
+export * from "./compression";
+export * from "./e2e";
+export * from "./reliableDelivery";
+export * from "./rpc";
+export { browserCompressor } from "./web/compression";
+export * from "./stats";
+export * from "./logger";
+export * from "./history";
+export * from "./jsonlHistoryStore";
 export * from "./transport";
+export * from "./endpoints";
+export * from "./outboundBuffer";
 export * from "./transports/websocketTransport";
 export * from "./types";
 export * from "./integration/runLiveTests";
 export * from "./process";
 export { BrowserWebSocketTransport } from "./web/websocketTransport";
-export { BrowserTunnelStream } from "./web/tunnelStream";
+export { BrowserTunnelStream, type BrowserTunnelStreamOptions } from "./web/tunnelStream";
+export { IndexedDbHistoryStore, type IndexedDbHistoryStoreOptions } from "./web/historyStore";
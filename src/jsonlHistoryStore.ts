@@ -0,0 +1,52 @@
+import { appendFile, readFile, writeFile } from "node:fs/promises";
+import { applyHistoryQuery, type CallDetailRecord, type HistoryQuery, type HistoryStore } from "./history";
+
+/**
+ * Node.js history store that appends one JSON record per line to a file.
+ * Writes are serialised so records land in the order calls ended.
+ */
+export class JsonlHistoryStore implements HistoryStore {
+  private readonly path: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  append(record: CallDetailRecord): Promise<void> {
+    const write = this.writes.then(() => appendFile(this.path, `${JSON.stringify(record)}\n`, "utf8"));
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  async query(query: HistoryQuery = {}): Promise<CallDetailRecord[]> {
+    await this.writes;
+    let contents: string;
+    try {
+      contents = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: CallDetailRecord[] = [];
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line) as CallDetailRecord);
+      } catch {
+        // A torn final line from an interrupted write; skip it.
+      }
+    }
+    return applyHistoryQuery(records, query);
+  }
+
+  async clear(): Promise<void> {
+    await this.writes;
+    await writeFile(this.path, "", "utf8");
+  }
+}
@@ -0,0 +1,78 @@
+import type { SystemXInboundMessage, SystemXOutboundMessage } from "./types";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogContext = Record<string, unknown>;
+
+/** Structured, leveled logger. `context` carries fields such as `callId` and `address`. */
+export interface TrimphoneLogger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
+
+export type FrameDirection = "inbound" | "outbound";
+
+export interface FrameTrace {
+  direction: FrameDirection;
+  /** The SystemX frame; binary MSG payloads are redacted unless `traceBinaryPayloads` is set. */
+  frame: SystemXInboundMessage | SystemXOutboundMessage;
+  callId?: string;
+  /** Size of the frame on the wire. */
+  bytes: number;
+}
+
+export type FrameTraceHook = (trace: FrameTrace) => void;
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export const noopLogger: TrimphoneLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/** Logger that writes to the console, dropping records below `minLevel`. */
+export function createConsoleLogger(minLevel: LogLevel = "debug"): TrimphoneLogger {
+  const threshold = LEVELS.indexOf(minLevel);
+  const write = (level: LogLevel) => (message: string, context?: LogContext) => {
+    if (LEVELS.indexOf(level) < threshold) {
+      return;
+    }
+    if (context && Object.keys(context).length > 0) {
+      console[level](`[trimphone] ${message}`, context);
+    } else {
+      console[level](`[trimphone] ${message}`);
+    }
+  };
+
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+  };
+}
+
+/** Replaces binary MSG payloads with a size marker so traces never leak raw data. */
+export function redactFrame<Frame extends SystemXInboundMessage | SystemXOutboundMessage>(frame: Frame): Frame {
+  const msg = frame as { type: string; content_type?: unknown; data?: unknown };
+  if (msg.type !== "MSG" || msg.content_type !== "binary") {
+    return frame;
+  }
+  return { ...frame, data: `[binary ${base64Size(msg.data)} bytes]` };
+}
+
+function base64Size(data: unknown): number {
+  if (data instanceof Uint8Array) {
+    // Binary codecs carry payloads as raw bytes.
+    return data.byteLength;
+  }
+  if (typeof data !== "string") {
+    return 0;
+  }
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
@@ -0,0 +1,62 @@
+import type { Call } from "./call";
+import type { MessagePayload } from "./types";
+
+export interface DialContext {
+  kind: "dial";
+  /** Address being dialled; middleware may rewrite it before calling `next()`. */
+  to: string;
+  /** Metadata sent with the DIAL frame; mutate it to inject headers such as auth tokens. */
+  metadata: Record<string, unknown>;
+  /** Set once the exchange has connected the call, i.e. after `await next()`. */
+  call?: Call;
+}
+
+export interface RingContext {
+  kind: "ring";
+  call: Call;
+  from: string;
+  /** Same object as `call.metadata`. */
+  metadata: Record<string, unknown>;
+}
+
+export interface MessageContext {
+  kind: "send" | "receive";
+  call: Call;
+  /** Payload on its way out (send) or in (receive); replace it to transform the message. */
+  data: unknown;
+  contentType: NonNullable<MessagePayload["contentType"]>;
+}
+
+export type MiddlewareContext = DialContext | RingContext | MessageContext;
+
+/**
+ * Koa-style middleware. Call `next()` to continue down the pipeline; return
+ * without calling it to drop the message or reject the call (as "forbidden",
+ * unless the middleware rejected it with its own reason), or throw to fail it.
+ */
+export type Middleware = (ctx: MiddlewareContext, next: () => Promise<void>) => Promise<void> | void;
+
+/** Composes middleware into a single runner that ends in `terminal`. */
+export function composeMiddleware<Context extends MiddlewareContext>(
+  stack: readonly Middleware[],
+  terminal: (ctx: Context) => Promise<void> | void,
+): (ctx: Context) => Promise<void> {
+  return (ctx) => {
+    let index = -1;
+
+    const dispatch = async (position: number): Promise<void> => {
+      if (position <= index) {
+        throw new Error("next() called multiple times");
+      }
+      index = position;
+
+      if (position === stack.length) {
+        await terminal(ctx);
+        return;
+      }
+      await stack[position](ctx, () => dispatch(position + 1));
+    };
+
+    return dispatch(0);
+  };
+}
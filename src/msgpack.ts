@@ -0,0 +1,377 @@
+import type { WireCodec } from "./codec";
+
+/**
+ * Minimal MessagePack implementation covering the types SystemX frames use:
+ * nil, booleans, integers, floats, strings, binary, arrays and string-keyed maps.
+ * Extension types are rejected. Undefined map values are omitted, as in JSON.
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class Writer {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  bytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  u8(value: number) {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  u16(value: number) {
+    this.reserve(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  u32(value: number) {
+    this.reserve(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  i8(value: number) {
+    this.reserve(1);
+    this.view.setInt8(this.length, value);
+    this.length += 1;
+  }
+
+  i16(value: number) {
+    this.reserve(2);
+    this.view.setInt16(this.length, value);
+    this.length += 2;
+  }
+
+  i32(value: number) {
+    this.reserve(4);
+    this.view.setInt32(this.length, value);
+    this.length += 4;
+  }
+
+  u64(value: number) {
+    this.reserve(8);
+    this.view.setBigUint64(this.length, BigInt(value));
+    this.length += 8;
+  }
+
+  i64(value: number) {
+    this.reserve(8);
+    this.view.setBigInt64(this.length, BigInt(value));
+    this.length += 8;
+  }
+
+  f64(value: number) {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  raw(bytes: Uint8Array) {
+    this.reserve(bytes.byteLength);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.byteLength;
+  }
+
+  private reserve(size: number) {
+    if (this.length + size <= this.buffer.byteLength) {
+      return;
+    }
+    let capacity = this.buffer.byteLength * 2;
+    while (capacity < this.length + size) {
+      capacity *= 2;
+    }
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+function writeInteger(writer: Writer, value: number) {
+  if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(value);
+    } else if (value <= 0xff) {
+      writer.u8(0xcc);
+      writer.u8(value);
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd);
+      writer.u16(value);
+    } else if (value <= 0xffffffff) {
+      writer.u8(0xce);
+      writer.u32(value);
+    } else {
+      writer.u8(0xcf);
+      writer.u64(value);
+    }
+    return;
+  }
+
+  if (value >= -0x20) {
+    writer.i8(value);
+  } else if (value >= -0x80) {
+    writer.u8(0xd0);
+    writer.i8(value);
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1);
+    writer.i16(value);
+  } else if (value >= -0x80000000) {
+    writer.u8(0xd2);
+    writer.i32(value);
+  } else {
+    writer.u8(0xd3);
+    writer.i64(value);
+  }
+}
+
+function writeLength(writer: Writer, length: number, fix: { prefix: number; max: number } | null, codes: [number, number, number]) {
+  if (fix && length <= fix.max) {
+    writer.u8(fix.prefix | length);
+  } else if (length <= 0xff && codes[0] !== 0) {
+    writer.u8(codes[0]);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(codes[1]);
+    writer.u16(length);
+  } else {
+    writer.u8(codes[2]);
+    writer.u32(length);
+  }
+}
+
+function writeValue(writer: Writer, value: unknown) {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0);
+    return;
+  }
+
+  switch (typeof value) {
+    case "boolean":
+      writer.u8(value ? 0xc3 : 0xc2);
+      return;
+
+    case "number":
+      if (Number.isSafeInteger(value)) {
+        writeInteger(writer, value);
+      } else {
+        writer.u8(0xcb);
+        writer.f64(value);
+      }
+      return;
+
+    case "string": {
+      const bytes = textEncoder.encode(value);
+      writeLength(writer, bytes.byteLength, { prefix: 0xa0, max: 31 }, [0xd9, 0xda, 0xdb]);
+      writer.raw(bytes);
+      return;
+    }
+
+    case "object":
+      break;
+
+    default:
+      throw new TypeError(`Cannot encode ${typeof value} as MessagePack`);
+  }
+
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    // Every view is sent as its raw bytes, whatever its element type.
+    const bytes = value instanceof ArrayBuffer ? new Uint8Array(value) : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    writeLength(writer, bytes.byteLength, null, [0xc4, 0xc5, 0xc6]);
+    writer.raw(bytes);
+    return;
+  }
+
+  if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+    // Like JSON.stringify, so a Date goes out as its ISO string under either codec.
+    writeValue(writer, (value as { toJSON(key: string): unknown }).toJSON(""));
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    writeLength(writer, value.length, { prefix: 0x90, max: 15 }, [0, 0xdc, 0xdd]);
+    for (const item of value) {
+      writeValue(writer, item);
+    }
+    return;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>).filter(
+    ([, item]) => item !== undefined && typeof item !== "function" && typeof item !== "symbol",
+  );
+  writeLength(writer, entries.length, { prefix: 0x80, max: 15 }, [0, 0xde, 0xdf]);
+  for (const [key, item] of entries) {
+    writeValue(writer, key);
+    writeValue(writer, item);
+  }
+}
+
+export function encodeMessagePack(value: unknown): Uint8Array {
+  const writer = new Writer();
+  writeValue(writer, value);
+  return writer.bytes();
+}
+
+class Reader {
+  private offset = 0;
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.byteLength;
+  }
+
+  read(): unknown {
+    const code = this.u8();
+
+    if (code <= 0x7f) {
+      return code;
+    }
+    if (code >= 0xe0) {
+      return code - 0x100;
+    }
+    if ((code & 0xf0) === 0x80) {
+      return this.map(code & 0x0f);
+    }
+    if ((code & 0xf0) === 0x90) {
+      return this.array(code & 0x0f);
+    }
+    if ((code & 0xe0) === 0xa0) {
+      return this.str(code & 0x1f);
+    }
+
+    switch (code) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return this.bin(this.u8());
+      case 0xc5:
+        return this.bin(this.u16());
+      case 0xc6:
+        return this.bin(this.u32());
+      case 0xca:
+        return this.advance(4, (at) => this.view.getFloat32(at));
+      case 0xcb:
+        return this.advance(8, (at) => this.view.getFloat64(at));
+      case 0xcc:
+        return this.u8();
+      case 0xcd:
+        return this.u16();
+      case 0xce:
+        return this.u32();
+      case 0xcf:
+        return this.advance(8, (at) => Number(this.view.getBigUint64(at)));
+      case 0xd0:
+        return this.advance(1, (at) => this.view.getInt8(at));
+      case 0xd1:
+        return this.advance(2, (at) => this.view.getInt16(at));
+      case 0xd2:
+        return this.advance(4, (at) => this.view.getInt32(at));
+      case 0xd3:
+        return this.advance(8, (at) => Number(this.view.getBigInt64(at)));
+      case 0xd9:
+        return this.str(this.u8());
+      case 0xda:
+        return this.str(this.u16());
+      case 0xdb:
+        return this.str(this.u32());
+      case 0xdc:
+        return this.array(this.u16());
+      case 0xdd:
+        return this.array(this.u32());
+      case 0xde:
+        return this.map(this.u16());
+      case 0xdf:
+        return this.map(this.u32());
+      default:
+        throw new Error(`Unsupported MessagePack type 0x${code.toString(16)}`);
+    }
+  }
+
+  private u8(): number {
+    return this.advance(1, (at) => this.view.getUint8(at));
+  }
+
+  private u16(): number {
+    return this.advance(2, (at) => this.view.getUint16(at));
+  }
+
+  private u32(): number {
+    return this.advance(4, (at) => this.view.getUint32(at));
+  }
+
+  private advance<T>(size: number, read: (at: number) => T): T {
+    if (this.offset + size > this.bytes.byteLength) {
+      throw new Error("Truncated MessagePack data");
+    }
+    const value = read(this.offset);
+    this.offset += size;
+    return value;
+  }
+
+  private str(length: number): string {
+    return textDecoder.decode(this.bin(length));
+  }
+
+  private bin(length: number): Uint8Array {
+    const start = this.offset;
+    this.advance(length, () => undefined);
+    return this.bytes.slice(start, start + length);
+  }
+
+  private array(length: number): unknown[] {
+    const items: unknown[] = [];
+    for (let i = 0; i < length; i += 1) {
+      items.push(this.read());
+    }
+    return items;
+  }
+
+  private map(length: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < length; i += 1) {
+      const key = this.read();
+      if (typeof key !== "string" && typeof key !== "number") {
+        throw new Error("MessagePack map keys must be strings or numbers");
+      }
+      // defineProperty keeps a "__proto__" key from replacing the prototype.
+      Object.defineProperty(result, String(key), { value: this.read(), enumerable: true, writable: true, configurable: true });
+    }
+    return result;
+  }
+}
+
+export function decodeMessagePack(bytes: Uint8Array): unknown {
+  const reader = new Reader(bytes);
+  const value = reader.read();
+  if (!reader.done) {
+    throw new Error("Unexpected trailing bytes after MessagePack value");
+  }
+  return value;
+}
+
+/** Compact binary codec; MSG payloads with content_type "binary" travel as raw bytes. */
+export const msgpackCodec: WireCodec = {
+  name: "msgpack",
+  binary: true,
+  encode(frame) {
+    return encodeMessagePack(frame);
+  },
+  decode(raw) {
+    return decodeMessagePack(typeof raw === "string" ? textEncoder.encode(raw) : raw);
+  },
+};
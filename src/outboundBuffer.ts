@@ -0,0 +1,85 @@
+import { OutboundBufferFullError } from "./errors";
+
+export type OutboundOverflowPolicy = "drop-oldest" | "drop-newest" | "error";
+
+export type OutboundDropReason = "overflow" | "expired" | "call_ended" | "closed";
+
+export interface OutboundBufferOptions {
+  /** Maximum number of frames held while disconnected. Defaults to 1000. */
+  maxFrames?: number;
+  /** Frames older than this are discarded instead of being flushed. Defaults to 30s. */
+  maxAgeMs?: number;
+  /** What to do when a frame arrives and the buffer is full. Defaults to "drop-oldest". */
+  overflow?: OutboundOverflowPolicy;
+}
+
+interface BufferedFrame<T> {
+  frame: T;
+  queuedAt: number;
+}
+
+/**
+ * FIFO of frames written while the client has no usable connection, bounded by
+ * frame count and age.
+ */
+export class OutboundBuffer<T> {
+  private readonly entries: BufferedFrame<T>[] = [];
+  private readonly maxFrames: number;
+  private readonly maxAgeMs: number;
+  private readonly overflow: OutboundOverflowPolicy;
+  private readonly onDrop: (frame: T, reason: OutboundDropReason) => void;
+
+  constructor(options: OutboundBufferOptions, onDrop: (frame: T, reason: OutboundDropReason) => void) {
+    this.maxFrames = Math.max(1, options.maxFrames ?? 1_000);
+    this.maxAgeMs = options.maxAgeMs ?? 30_000;
+    this.overflow = options.overflow ?? "drop-oldest";
+    this.onDrop = onDrop;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  push(frame: T): void {
+    this.expire();
+
+    if (this.entries.length >= this.maxFrames) {
+      switch (this.overflow) {
+        case "error":
+          throw new OutboundBufferFullError(this.maxFrames);
+        case "drop-newest":
+          this.onDrop(frame, "overflow");
+          return;
+        case "drop-oldest":
+        default: {
+          const oldest = this.entries.shift();
+          if (oldest) {
+            this.onDrop(oldest.frame, "overflow");
+          }
+        }
+      }
+    }
+
+    this.entries.push({ frame, queuedAt: Date.now() });
+  }
+
+  /** Removes and returns every frame that has not expired, oldest first. */
+  drain(): T[] {
+    this.expire();
+    return this.entries.splice(0, this.entries.length).map((entry) => entry.frame);
+  }
+
+  clear(reason: OutboundDropReason): void {
+    for (const entry of this.entries.splice(0, this.entries.length)) {
+      this.onDrop(entry.frame, reason);
+    }
+  }
+
+  private expire() {
+    const cutoff = Date.now() - this.maxAgeMs;
+    while (this.entries.length > 0 && this.entries[0].queuedAt < cutoff) {
+      const expired = this.entries.shift()!;
+      this.onDrop(expired.frame, "expired");
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Reliable delivery for calls: every MSG frame carries a per-call sequence
+ * number, the receiver acknowledges the highest contiguous one with ACK frames,
+ * and frames still unacknowledged are written again once the call has been
+ * resumed after a reconnect, or when no ACK has made progress for a while.
+ * Receivers drop frames they have already seen and frames that skip ahead.
+ */
+
+/** How long a receiver collects frames before acknowledging them in one ACK. */
+export const ACK_DELAY_MS = 20;
+
+/** How long the sender waits for an ACK to make progress before writing unacknowledged frames again. */
+export const RETRANSMIT_TIMEOUT_MS = 1_000;
+
+/** Dial and answer metadata key used to ask for reliable delivery. */
+export const RELIABLE_METADATA_KEY = "reliable";
+
+/** Frames and payload bytes a call may have unacknowledged before further sends fail. */
+export const MAX_UNACKED_FRAMES = 1024;
+export const MAX_UNACKED_BYTES = 16 * 1024 * 1024;
+
+export type ReceiveVerdict = "new" | "duplicate" | "gap";
+
+interface AckWaiter {
+  seq: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/** Sequencing and acknowledgement state of one call, in both directions. */
+export class ReliableChannel<Frame extends { seq?: number }> {
+  private nextSeq = 1;
+  private acked = 0;
+  private readonly unacked = new Map<number, { frame: Frame; size: number }>();
+  private unackedSize = 0;
+  private waiters: AckWaiter[] = [];
+  private failure: Error | null = null;
+  private received = 0;
+
+  /** Sequence number of the most recently stamped frame; 0 before the first. */
+  get lastSeq(): number {
+    return this.nextSeq - 1;
+  }
+
+  /** Highest sequence number received without gaps; the value to acknowledge. */
+  get receivedSeq(): number {
+    return this.received;
+  }
+
+  get unackedCount(): number {
+    return this.unacked.size;
+  }
+
+  /** Whether a frame with `size` payload bytes fits within the unacknowledged limits. */
+  hasRoomFor(size: number): boolean {
+    return this.unacked.size < MAX_UNACKED_FRAMES && this.unackedSize + size <= MAX_UNACKED_BYTES;
+  }
+
+  /** Numbers an outbound frame and keeps it until the peer acknowledges it. */
+  stamp(frame: Frame, size = 0): Frame {
+    const stamped = { ...frame, seq: this.nextSeq };
+    this.unacked.set(this.nextSeq, { frame: stamped, size });
+    this.unackedSize += size;
+    this.nextSeq += 1;
+    return stamped;
+  }
+
+  /** Applies a cumulative ACK from the peer; returns whether it acknowledged anything new. */
+  acknowledge(seq: number): boolean {
+    const upTo = Math.min(seq, this.lastSeq);
+    if (upTo <= this.acked) {
+      return false;
+    }
+    for (let acked = this.acked + 1; acked <= upTo; acked += 1) {
+      this.unackedSize -= this.unacked.get(acked)?.size ?? 0;
+      this.unacked.delete(acked);
+    }
+    this.acked = upTo;
+
+    const waiting: AckWaiter[] = [];
+    for (const waiter of this.waiters) {
+      if (waiter.seq <= upTo) {
+        waiter.resolve();
+      } else {
+        waiting.push(waiter);
+      }
+    }
+    this.waiters = waiting;
+    return true;
+  }
+
+  /** Resolves once the peer has acknowledged `seq`; rejects if the channel fails first. */
+  whenAcked(seq: number): Promise<void> {
+    if (seq <= this.acked) {
+      return Promise.resolve();
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ seq, resolve, reject });
+    });
+  }
+
+  /** Frames the peer has not acknowledged yet, oldest first. */
+  unackedFrames(): Frame[] {
+    return Array.from(this.unacked.values(), (entry) => entry.frame);
+  }
+
+  /** Classifies an inbound sequence number; only "new" frames should be processed. */
+  receive(seq: number): ReceiveVerdict {
+    if (seq <= this.received) {
+      return "duplicate";
+    }
+    if (seq > this.received + 1) {
+      // An earlier frame went missing; it comes again, followed by this one.
+      return "gap";
+    }
+    this.received = seq;
+    return "new";
+  }
+
+  /** Rejects everything still waiting for an acknowledgement. */
+  fail(error: Error): void {
+    this.failure = error;
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      waiter.reject(error);
+    }
+  }
+}
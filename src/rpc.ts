@@ -0,0 +1,481 @@
+/**
+ * JSON-RPC 2.0 over call messages. Requests, responses and notifications travel
+ * as `json` payloads; messages without `jsonrpc: "2.0"` are left to other
+ * `message` listeners. Two notifications borrowed from the Language Server
+ * Protocol extend it: `$/progress` carries a partial result of a request that is
+ * still running, and `$/cancelRequest` asks the server to abandon one.
+ */
+
+import type { Call } from "./types";
+import { CallStateError, RpcCancelledError, RpcError, RpcTimeoutError } from "./errors";
+
+export const JSONRPC_VERSION = "2.0";
+
+/** Notification carrying `{ id, value }`, a partial result of request `id`. */
+export const RPC_PROGRESS_METHOD = "$/progress";
+
+/** Notification carrying `{ id }`, sent when the client no longer wants the result of request `id`. */
+export const RPC_CANCEL_METHOD = "$/cancelRequest";
+
+/** How long a request waits for its response unless `timeoutMs` says otherwise. */
+export const DEFAULT_RPC_TIMEOUT_MS = 30_000;
+
+/** Error codes of JSON-RPC 2.0, plus the LSP code answered to cancelled requests. */
+export const RPC_ERROR_CODES = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+  requestCancelled: -32800,
+} as const;
+
+export type RpcId = string | number;
+export type RpcParams = unknown[] | Record<string, unknown>;
+
+export interface RpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/** A request, or a notification when it has no `id`. */
+export interface RpcRequestMessage {
+  jsonrpc: typeof JSONRPC_VERSION;
+  id?: RpcId;
+  method: string;
+  params?: RpcParams;
+}
+
+export type RpcResponseMessage =
+  | { jsonrpc: typeof JSONRPC_VERSION; id: RpcId | null; result: unknown }
+  | { jsonrpc: typeof JSONRPC_VERSION; id: RpcId | null; error: RpcErrorObject };
+
+export type RpcMessage = RpcRequestMessage | RpcResponseMessage;
+
+export interface RpcContext {
+  call: Call;
+  method: string;
+  /** Null for notifications, which get no response. */
+  id: RpcId | null;
+  /** Aborted when the client cancels the request or the call ends. */
+  signal: AbortSignal;
+  /** Sends a partial result ahead of the final one; ignored for notifications. */
+  progress(value: unknown): void;
+  /** Sends a notification to the client. */
+  notify(method: string, params?: RpcParams): void;
+}
+
+/** Handles one method; its return value (or what it resolves to) is the result. */
+export type RpcHandler<Params = RpcParams | undefined> = (params: Params, context: RpcContext) => unknown;
+/** Any handler fits, whatever params it expects; the server passes them on as received. */
+export type RpcHandlers = Record<string, RpcHandler<never>>;
+
+export interface RpcRequestOptions {
+  /**
+   * Rejects with `RpcTimeoutError` when neither the response nor a partial result
+   * arrived for this long; each partial result starts the wait again. 0 disables it.
+   */
+  timeoutMs?: number;
+  /** Aborting it rejects the request with `RpcCancelledError` and cancels it on the server. */
+  signal?: AbortSignal;
+  /** Receives each partial result the handler reports through `context.progress()`. */
+  onPartial?: (value: unknown) => void;
+}
+
+export interface RpcClientOptions {
+  /** Default `timeoutMs` of the proxy's requests; DEFAULT_RPC_TIMEOUT_MS unless set. */
+  timeoutMs?: number;
+}
+
+export type RpcNotificationListener = (params: RpcParams | undefined) => void;
+
+/** Members of every `call.rpc()` proxy; remote methods with these names go through `request()`. */
+export interface RpcClientApi {
+  request<Result = unknown>(method: string, params?: RpcParams, options?: RpcRequestOptions): Promise<Result>;
+  notify(method: string, params?: RpcParams): void;
+  /** Listens for notifications the server sends on the call; returns a function that stops listening. */
+  onNotification(method: string, listener: RpcNotificationListener): () => void;
+}
+
+/** Remote methods typed after the server's handlers, e.g. `call.rpc<typeof handlers>()`. */
+export type RpcProxy<Methods> = RpcClientApi & {
+  [Method in keyof Methods & string]: Methods[Method] extends (params: infer Params, ...rest: never[]) => infer Result
+    ? (params: Params, options?: RpcRequestOptions) => Promise<Awaited<Result>>
+    : never;
+};
+
+/** Handle returned by `phone.serveRpc()`. */
+export interface RpcService {
+  readonly address: string;
+  /** Stops answering new calls; calls already answered keep being served until they end. */
+  stop(): void;
+}
+
+function isRpcEnvelope(message: unknown): message is Record<string, unknown> {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    !Array.isArray(message) &&
+    (message as Record<string, unknown>).jsonrpc === JSONRPC_VERSION
+  );
+}
+
+function isRpcId(value: unknown): value is RpcId {
+  return typeof value === "string" || (typeof value === "number" && Number.isFinite(value));
+}
+
+function isRpcParams(value: unknown): value is RpcParams {
+  return typeof value === "object" && value !== null;
+}
+
+function isResponse(message: Record<string, unknown>): boolean {
+  return message.method === undefined && ("result" in message || "error" in message);
+}
+
+/** Envelopes of a single message or a batch; arrays without any are ordinary application data. */
+function rpcEnvelopes(message: unknown): unknown[] | null {
+  if (Array.isArray(message)) {
+    return message.some(isRpcEnvelope) ? message : null;
+  }
+  return isRpcEnvelope(message) ? [message] : null;
+}
+
+function errorResponse(id: RpcId | null, code: number, message: string, data?: unknown): RpcResponseMessage {
+  return { jsonrpc: JSONRPC_VERSION, id, error: data === undefined ? { code, message } : { code, message, data } };
+}
+
+function reportRpcError(call: Call, error: unknown) {
+  if (call.listenerCount("error") > 0) {
+    call.emit("error", error);
+  }
+}
+
+/**
+ * Sends unless the call is over. A failed send goes to the call's `error` listeners,
+ * except for best-effort messages such as progress and cancellation.
+ */
+function sendRpc(call: Call, message: RpcMessage | RpcResponseMessage[], bestEffort = false): void {
+  if (call.state !== "active" && call.state !== "suspended") {
+    return;
+  }
+  const report = (error: unknown) => {
+    if (!bestEffort) {
+      reportRpcError(call, error);
+    }
+  };
+  try {
+    call.send(message, "json").catch(report);
+  } catch (error) {
+    report(error);
+  }
+}
+
+/** Runs handlers for the requests and notifications arriving on one call. */
+export class RpcServer {
+  private readonly call: Call;
+  private readonly handlers: RpcHandlers;
+  /** Requests whose handler is still running, by id. */
+  private readonly running = new Map<RpcId, AbortController>();
+
+  constructor(call: Call, handlers: RpcHandlers) {
+    this.call = call;
+    this.handlers = handlers;
+    call.on("message", this.onMessage);
+    call.once("hangup", this.onHangup);
+  }
+
+  /** Stops handling messages and aborts the handlers still running. */
+  close(): void {
+    this.call.removeListener("message", this.onMessage);
+    this.call.removeListener("hangup", this.onHangup);
+    for (const controller of this.running.values()) {
+      controller.abort();
+    }
+    this.running.clear();
+  }
+
+  private readonly onMessage = (message: unknown) => {
+    const envelopes = rpcEnvelopes(message);
+    if (!envelopes) {
+      return;
+    }
+    void Promise.all(envelopes.map((envelope) => this.handle(envelope)))
+      .then((responses) => {
+        const sent = responses.filter((response): response is RpcResponseMessage => response !== null);
+        if (sent.length > 0) {
+          sendRpc(this.call, Array.isArray(message) ? sent : sent[0]);
+        }
+      })
+      .catch((error) => reportRpcError(this.call, error));
+  };
+
+  private readonly onHangup = () => {
+    this.close();
+  };
+
+  private async handle(message: unknown): Promise<RpcResponseMessage | null> {
+    if (!isRpcEnvelope(message)) {
+      return errorResponse(null, RPC_ERROR_CODES.invalidRequest, "Invalid Request");
+    }
+    if (isResponse(message)) {
+      // Responses belong to this call's RpcClient.
+      return null;
+    }
+    const notification = !("id" in message);
+    const id = isRpcId(message.id) ? message.id : null;
+    if (
+      typeof message.method !== "string" ||
+      (message.params !== undefined && !isRpcParams(message.params)) ||
+      (!notification && id === null)
+    ) {
+      return errorResponse(id, RPC_ERROR_CODES.invalidRequest, "Invalid Request");
+    }
+
+    const method = message.method;
+    if (method === RPC_CANCEL_METHOD) {
+      const cancelled = (message.params as { id?: unknown } | undefined)?.id;
+      if (isRpcId(cancelled)) {
+        this.running.get(cancelled)?.abort();
+      }
+      return null;
+    }
+    const handler = Object.hasOwn(this.handlers, method) ? this.handlers[method] : undefined;
+    if (!handler) {
+      return notification ? null : errorResponse(id, RPC_ERROR_CODES.methodNotFound, `Method not found: ${method}`);
+    }
+
+    const controller = new AbortController();
+    if (id !== null) {
+      this.running.set(id, controller);
+    }
+    const context: RpcContext = {
+      call: this.call,
+      method,
+      id,
+      signal: controller.signal,
+      progress: (value) => {
+        if (id !== null && !controller.signal.aborted) {
+          sendRpc(this.call, { jsonrpc: JSONRPC_VERSION, method: RPC_PROGRESS_METHOD, params: { id, value } }, true);
+        }
+      },
+      notify: (notifyMethod, params) => {
+        sendRpc(this.call, params === undefined ? { jsonrpc: JSONRPC_VERSION, method: notifyMethod } : { jsonrpc: JSONRPC_VERSION, method: notifyMethod, params });
+      },
+    };
+
+    try {
+      const result = await handler(message.params as never, context);
+      if (notification) {
+        return null;
+      }
+      if (controller.signal.aborted) {
+        return errorResponse(id, RPC_ERROR_CODES.requestCancelled, "Request cancelled");
+      }
+      return { jsonrpc: JSONRPC_VERSION, id, result: result ?? null };
+    } catch (error) {
+      if (notification) {
+        reportRpcError(this.call, error);
+        return null;
+      }
+      if (controller.signal.aborted) {
+        return errorResponse(id, RPC_ERROR_CODES.requestCancelled, "Request cancelled");
+      }
+      if (error instanceof RpcError) {
+        return errorResponse(id, error.code, error.message, error.data);
+      }
+      return errorResponse(id, RPC_ERROR_CODES.internalError, error instanceof Error ? error.message : "Internal error");
+    } finally {
+      if (id !== null && this.running.get(id) === controller) {
+        this.running.delete(id);
+      }
+    }
+  }
+}
+
+interface PendingRequest {
+  method: string;
+  onPartial?: (value: unknown) => void;
+  /** Starts the timeout again; called on every partial result. */
+  touch(): void;
+  resolve(result: unknown): void;
+  reject(error: Error): void;
+}
+
+/** Sends requests over one call and matches the responses to them. */
+export class RpcClient {
+  private readonly call: Call;
+  private nextId = 1;
+  private readonly pending = new Map<RpcId, PendingRequest>();
+  private readonly listeners = new Map<string, Set<RpcNotificationListener>>();
+
+  constructor(call: Call) {
+    this.call = call;
+    call.on("message", this.onMessage);
+    call.once("hangup", this.onHangup);
+  }
+
+  request<Result = unknown>(method: string, params?: RpcParams, options: RpcRequestOptions = {}): Promise<Result> {
+    if (params !== undefined && !isRpcParams(params)) {
+      return Promise.reject(new TypeError("RPC params must be an array or an object"));
+    }
+    const { signal, onPartial } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new RpcCancelledError(method, this.call.id));
+    }
+
+    const id = this.nextId++;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_RPC_TIMEOUT_MS;
+    return new Promise<Result>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const settle = () => {
+        this.pending.delete(id);
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const abandon = (error: Error) => {
+        settle();
+        this.cancel(id);
+        reject(error);
+      };
+      const onAbort = () => abandon(new RpcCancelledError(method, this.call.id));
+      const touch = () => {
+        if (timeoutMs > 0) {
+          clearTimeout(timer);
+          timer = setTimeout(() => abandon(new RpcTimeoutError(method, timeoutMs, this.call.id)), timeoutMs);
+        }
+      };
+
+      this.pending.set(id, {
+        method,
+        onPartial,
+        touch,
+        resolve: (result) => {
+          settle();
+          resolve(result as Result);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      });
+      signal?.addEventListener("abort", onAbort, { once: true });
+      touch();
+
+      const fail = (error: unknown) => {
+        if (this.pending.has(id)) {
+          settle();
+          reject(error);
+        }
+      };
+      try {
+        this.call
+          .send(params === undefined ? { jsonrpc: JSONRPC_VERSION, id, method } : { jsonrpc: JSONRPC_VERSION, id, method, params }, "json")
+          .catch(fail);
+      } catch (error) {
+        fail(error);
+      }
+    });
+  }
+
+  notify(method: string, params?: RpcParams): void {
+    if (params !== undefined && !isRpcParams(params)) {
+      throw new TypeError("RPC params must be an array or an object");
+    }
+    const report = (error: unknown) => reportRpcError(this.call, error);
+    try {
+      this.call
+        .send(params === undefined ? { jsonrpc: JSONRPC_VERSION, method } : { jsonrpc: JSONRPC_VERSION, method, params }, "json")
+        .catch(report);
+    } catch (error) {
+      report(error);
+    }
+  }
+
+  onNotification(method: string, listener: RpcNotificationListener): () => void {
+    let listeners = this.listeners.get(method);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(method, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private cancel(id: RpcId) {
+    sendRpc(this.call, { jsonrpc: JSONRPC_VERSION, method: RPC_CANCEL_METHOD, params: { id } }, true);
+  }
+
+  private readonly onMessage = (message: unknown) => {
+    for (const envelope of rpcEnvelopes(message) ?? []) {
+      if (isRpcEnvelope(envelope)) {
+        this.handle(envelope);
+      }
+    }
+  };
+
+  private readonly onHangup = () => {
+    this.call.removeListener("message", this.onMessage);
+    for (const request of Array.from(this.pending.values())) {
+      request.reject(new CallStateError(`Call ended before the response to ${request.method} arrived`, this.call.id));
+    }
+  };
+
+  private handle(message: Record<string, unknown>) {
+    if (isResponse(message)) {
+      const request = isRpcId(message.id) ? this.pending.get(message.id) : undefined;
+      if (!request) {
+        return;
+      }
+      const error = message.error as Partial<RpcErrorObject> | undefined;
+      if (error === undefined) {
+        request.resolve(message.result);
+      } else {
+        const code = typeof error?.code === "number" ? error.code : RPC_ERROR_CODES.internalError;
+        const text = typeof error?.message === "string" ? error.message : "RPC request failed";
+        request.reject(new RpcError(code, text, error?.data, { callId: this.call.id }));
+      }
+      return;
+    }
+    if (typeof message.method !== "string" || "id" in message) {
+      // Requests are for this call's RpcServer.
+      return;
+    }
+    const params = isRpcParams(message.params) ? message.params : undefined;
+    if (message.method === RPC_PROGRESS_METHOD) {
+      const progress = params as { id?: unknown; value?: unknown } | undefined;
+      const request = isRpcId(progress?.id) ? this.pending.get(progress.id) : undefined;
+      if (request) {
+        request.touch();
+        request.onPartial?.(progress?.value);
+      }
+      return;
+    }
+    for (const listener of this.listeners.get(message.method) ?? []) {
+      listener(params);
+    }
+  }
+}
+
+/** Wraps a client so that any other property is a remote method: `proxy.add([1, 2])`. */
+export function createRpcProxy<Methods>(client: RpcClient, options: RpcClientOptions = {}): RpcProxy<Methods> {
+  const api: RpcClientApi = {
+    request: (method, params, requestOptions) => client.request(method, params, { ...options, ...requestOptions }),
+    notify: (method, params) => client.notify(method, params),
+    onNotification: (method, listener) => client.onNotification(method, listener),
+  };
+  return new Proxy(api, {
+    get(target, property) {
+      // Not a thenable, so the proxy can be returned from async functions.
+      if (typeof property !== "string" || property === "then") {
+        return Reflect.get(target, property);
+      }
+      if (Object.hasOwn(target, property)) {
+        return target[property as keyof RpcClientApi];
+      }
+      return (params?: RpcParams, requestOptions?: RpcRequestOptions) => target.request(property, params, requestOptions);
+    },
+  }) as RpcProxy<Methods>;
+}
@@ -0,0 +1,196 @@
+import type { MessagePayload } from "./types";
+import type { CompressionAlgorithm } from "./compression";
+
+export type ContentType = NonNullable<MessagePayload["contentType"]>;
+
+export type TrafficDirection = "sent" | "received";
+
+export interface TrafficCounters {
+  /** Messages and stream chunks, however many frames each took on the wire. */
+  messages: number;
+  /** Payload bytes as the application sees them. */
+  bytes: number;
+}
+
+export type TrafficByContentType = Record<ContentType, TrafficCounters>;
+
+export interface TrafficStats {
+  sent: TrafficByContentType;
+  received: TrafficByContentType;
+}
+
+export interface CompressionCounters {
+  /** Messages and stream chunks sent or received compressed. */
+  messages: number;
+  /** Payload bytes before compression. */
+  bytes: number;
+  compressedBytes: number;
+  /** `compressedBytes / bytes`, or null before anything was compressed. */
+  ratio: number | null;
+}
+
+export interface CompressionStats {
+  sent: CompressionCounters;
+  received: CompressionCounters;
+}
+
+/** Frames written to or read from the socket, including fragments, ACKs and CREDIT grants. */
+export interface WireCounters {
+  frames: number;
+  /** Encoded frame bytes. */
+  bytes: number;
+}
+
+export interface WireStats {
+  sent: WireCounters;
+  received: WireCounters;
+}
+
+export interface CallStats extends TrafficStats {
+  callId: string;
+  /** Frames carrying this call's ID. */
+  wire: WireStats;
+  /** Milliseconds the call's stream has spent waiting for flow-control credit from the peer. */
+  streamBlockedMs: number;
+  compression: CompressionStats & {
+    /** Algorithm agreed for this call, or null when its payloads go uncompressed. */
+    algorithm: CompressionAlgorithm | null;
+  };
+}
+
+export interface TrimphoneStats extends TrafficStats {
+  timestamp: number;
+  callsPlaced: number;
+  callsReceived: number;
+  /** Failed outbound dials keyed by BUSY reason. */
+  callsFailed: Record<string, number>;
+  activeCalls: number;
+  activeStreams: number;
+  reconnects: number;
+  /** Round-trip time of the most recent heartbeat, or null before the first ack. */
+  heartbeatRttMs: number | null;
+  averageHeartbeatRttMs: number | null;
+  compression: CompressionStats;
+  wire: WireStats;
+}
+
+function emptyByContentType(): TrafficByContentType {
+  return {
+    text: { messages: 0, bytes: 0 },
+    json: { messages: 0, bytes: 0 },
+    binary: { messages: 0, bytes: 0 },
+  };
+}
+
+/** Message and byte counters split by direction and content type. */
+export class TrafficCounter {
+  private readonly counters: TrafficStats = {
+    sent: emptyByContentType(),
+    received: emptyByContentType(),
+  };
+
+  record(direction: TrafficDirection, contentType: ContentType, bytes: number): void {
+    const counter = this.counters[direction][contentType];
+    counter.messages += 1;
+    counter.bytes += bytes;
+  }
+
+  snapshot(): TrafficStats {
+    return {
+      sent: cloneByContentType(this.counters.sent),
+      received: cloneByContentType(this.counters.received),
+    };
+  }
+}
+
+/** Original and compressed byte counts per direction. */
+export class CompressionCounter {
+  private readonly counters = {
+    sent: { messages: 0, bytes: 0, compressedBytes: 0 },
+    received: { messages: 0, bytes: 0, compressedBytes: 0 },
+  };
+
+  record(direction: TrafficDirection, bytes: number, compressedBytes: number): void {
+    const counter = this.counters[direction];
+    counter.messages += 1;
+    counter.bytes += bytes;
+    counter.compressedBytes += compressedBytes;
+  }
+
+  snapshot(): CompressionStats {
+    const withRatio = ({ messages, bytes, compressedBytes }: Omit<CompressionCounters, "ratio">): CompressionCounters => ({
+      messages,
+      bytes,
+      compressedBytes,
+      ratio: bytes > 0 ? compressedBytes / bytes : null,
+    });
+    return { sent: withRatio(this.counters.sent), received: withRatio(this.counters.received) };
+  }
+}
+
+/** Frame and byte counters for what crosses the socket, per direction. */
+export class WireCounter {
+  private readonly counters: WireStats = {
+    sent: { frames: 0, bytes: 0 },
+    received: { frames: 0, bytes: 0 },
+  };
+
+  record(direction: TrafficDirection, bytes: number): void {
+    const counter = this.counters[direction];
+    counter.frames += 1;
+    counter.bytes += bytes;
+  }
+
+  snapshot(): WireStats {
+    return { sent: { ...this.counters.sent }, received: { ...this.counters.received } };
+  }
+}
+
+function cloneByContentType(source: TrafficByContentType): TrafficByContentType {
+  return {
+    text: { ...source.text },
+    json: { ...source.json },
+    binary: { ...source.binary },
+  };
+}
+
+/** Size in bytes of a payload as the application sees it (before any wire encoding). */
+export function payloadSize(data: unknown): number {
+  if (typeof data === "string") {
+    return utf8ByteLength(data);
+  }
+  if (data instanceof ArrayBuffer) {
+    return data.byteLength;
+  }
+  if (ArrayBuffer.isView(data)) {
+    return data.byteLength;
+  }
+  if (data === undefined || data === null) {
+    return 0;
+  }
+  try {
+    return utf8ByteLength(JSON.stringify(data));
+  } catch {
+    return 0;
+  }
+}
+
+/** UTF-8 length of a string, counted without encoding it. */
+export function utf8ByteLength(text: string): number {
+  let bytes = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code < 0xdc00 && i + 1 < text.length && (text.charCodeAt(i + 1) & 0xfc00) === 0xdc00) {
+      // A surrogate pair is one four-byte code point.
+      bytes += 4;
+      i++;
+    } else {
+      bytes += 3;
+    }
+  }
+  return bytes;
+}
@@ -5,6 +5,18 @@ export interface WebSocketTransportOptions extends TransportOptions {
   client?: ClientOptions;
 }
 
+function toBuffer(data: WebSocket.RawData): Buffer {
+  // RawData is a Buffer, a Buffer[] (fragmented messages) or an ArrayBuffer
+  // depending on the socket's binaryType.
+  if (Array.isArray(data)) {
+    return Buffer.concat(data);
+  }
+  if (data instanceof ArrayBuffer) {
+    return Buffer.from(data);
+  }
+  return data;
+}
+
 export class WebSocketTransport extends BaseTransport {
   private socket: WebSocket | null = null;
   private readonly url?: string;
@@ -62,8 +74,11 @@ export class WebSocketTransport extends BaseTransport {
       socket.once("open", handleOpen);
       socket.on("error", handleError);
       socket.on("close", handleClose);
-      socket.on("message", (data: WebSocket.RawData) => {
-        this.emit("message", data);
+      socket.on("message", (data: WebSocket.RawData, isBinary: boolean) => {
+        // ws hands text messages over as Buffers too; keep them as strings so
+        // binary data frames stay distinguishable.
+        const buffer = toBuffer(data);
+        this.emit("message", isBinary ? buffer : buffer.toString("utf8"));
       });
     });
   }
@@ -7,29 +7,166 @@ import type {
   SystemXInboundMessage,
   SystemXOutboundMessage,
   MessagePayload,
+  CallProgress,
+  PresenceListener,
+  PresenceStatus,
+  RingDecision,
+  RingHandler,
+  StreamOptions,
 } from "./types";
 import type { Transport, TransportFactory } from "./transport";
-import { Call, type CallController } from "./call";
-import { isValidAddress } from "./utils";
+import { Call, DEFAULT_STREAM_NAME, type CallController } from "./call";
+import { createId, decodeBase64, isValidAddress } from "./utils";
+import { decodeBinaryFrame, encodeBinaryFrame, isBinaryFrame } from "./binaryFrame";
+import { isJsonText, jsonCodec, type WireCodec } from "./codec";
+import { EndpointPool, type EndpointHealth } from "./endpoints";
+import {
+  DialAbortedError,
+  DialBusyError,
+  DialTimeoutError,
+  DisconnectedError,
+  MessageTooLargeError,
+  ProtocolError,
+  RegistrationError,
+  TrimphoneError,
+  UndeliveredMessageError,
+  isBusyReason,
+  type BusyReason,
+} from "./errors";
+import { OutboundBuffer } from "./outboundBuffer";
+import { ACK_DELAY_MS, RELIABLE_METADATA_KEY, RETRANSMIT_TIMEOUT_MS, ReliableChannel } from "./reliableDelivery";
+import { RpcServer, type RpcHandlers, type RpcService } from "./rpc";
+import {
+  DEFAULT_E2E_HANDSHAKE_TIMEOUT_MS,
+  E2E_AUTH_FAILED,
+  E2E_HANDSHAKE_FAILED,
+  E2E_METADATA_KEY,
+  E2E_SCHEME,
+  E2eSession,
+  e2eAssociatedData,
+} from "./e2e";
+import {
+  COMPRESSION_METADATA_KEY,
+  DEFAULT_COMPRESSION_THRESHOLD_BYTES,
+  isCompressionAlgorithm,
+  nodeCompressor,
+  selectCompression,
+  type CompressionAlgorithm,
+  type PayloadCompressor,
+} from "./compression";
+import { DEFAULT_STREAM_WINDOW_BYTES } from "./flowControl";
+import {
+  DEFAULT_MAX_FRAME_BYTES,
+  DEFAULT_MAX_MESSAGE_BYTES,
+  FragmentAssembler,
+  splitPayload,
+} from "./fragmentation";
+import { evaluateAcl, type AclDecision } from "./acl";
+import {
+  CLIENT_FEATURES,
+  LEGACY_FEATURES,
+  PEER_FEATURES,
+  PEER_FEATURES_METADATA_KEY,
+  PROTOCOL_VERSION,
+  agreePeerFeatures,
+  negotiateCapabilities,
+  type ExchangeCapabilities,
+  type PeerFeature,
+  type TrimphoneFeature,
+} from "./capabilities";
+import { MemoryHistoryStore, type CallDetailRecord, type HangupInitiator, type HistoryStore } from "./history";
+import {
+  createConsoleLogger,
+  noopLogger,
+  redactFrame,
+  type FrameDirection,
+  type FrameTraceHook,
+  type LogContext,
+  type LogLevel,
+  type TrimphoneLogger,
+} from "./logger";
+import {
+  CompressionCounter,
+  TrafficCounter,
+  WireCounter,
+  payloadSize,
+  utf8ByteLength,
+  type ContentType,
+  type TrafficDirection,
+  type TrimphoneStats,
+} from "./stats";
+import {
+  composeMiddleware,
+  type DialContext,
+  type MessageContext,
+  type Middleware,
+  type MiddlewareContext,
+  type RingContext,
+} from "./middleware";
 import { createWebSocketTransport } from "./transports/websocketTransport";
 import { BrowserTunnelStream } from "./web/tunnelStream";
+import { browserCompressor } from "./web/compression";
 import { TunnelStream } from "./tunnelStream";
 
 type EventKeys = keyof TrimphoneEvents;
 
 type ConnectionState = "disconnected" | "connecting" | "connected";
 
+/** Frames tied to a single connection; they are regenerated rather than buffered. */
+const CONNECTION_FRAMES: ReadonlySet<SystemXOutboundMessage["type"]> = new Set([
+  "REGISTER",
+  "UNREGISTER",
+  "HEARTBEAT",
+  "RESUME",
+  "STATUS",
+  "SUBSCRIBE",
+  "UNSUBSCRIBE",
+]);
+
+/** How long the correlation IDs of abandoned dials are kept, so a late CONNECTED can still be hung up. */
+const ABANDONED_DIAL_TTL_MS = 60_000;
+const MAX_ABANDONED_DIALS = 64;
+
+/** How many named substreams the peer may open on one call; frames for further names are refused. */
+const MAX_REMOTE_STREAMS_PER_CALL = 64;
+/** Substream names travel behind a u8 length in binary frames. */
+const MAX_STREAM_NAME_BYTES = 0xff;
+
+const PUBLISHABLE_STATUSES: ReadonlySet<string> = new Set(["available", "busy", "dnd", "away"]);
+const PRESENCE_STATUSES: ReadonlySet<string> = new Set([...PUBLISHABLE_STATUSES, "offline"]);
+
 interface Deferred<T> {
   resolve(value: T): void;
   reject(error: Error): void;
 }
 
 interface PendingDial {
+  id: string;
   to: string;
   metadata?: Record<string, unknown>;
   deferred: Deferred<Call>;
+  /** Set once the caller gave up (timeout/abort); a late CONNECTED is hung up. */
+  abandoned: boolean;
+  /** Created when the exchange first reports progress, before CONNECTED. */
+  call: Call | null;
+  onCall?: (call: Call) => void;
+  /** Compression algorithms offered in the DIAL metadata. */
+  compression: CompressionAlgorithm[];
+  /** Asked for end-to-end encryption in the DIAL metadata. */
+  encrypt: boolean;
+  /** Asked for reliable delivery in the DIAL metadata. */
+  reliable: boolean;
+  cleanup(): void;
 }
 
+type ProgressMessage = Extract<SystemXInboundMessage, { type: "RINGING" | "QUEUED" | "PROGRESS" }>;
+
+const PROGRESS_STAGES: Record<string, CallProgress["stage"]> = {
+  RINGING: "ringing",
+  QUEUED: "queued",
+  PROGRESS: "progress",
+};
+
 const DEFAULTS = {
   autoReconnect: true,
   heartbeatIntervalMs: 30_000,
@@ -37,50 +174,45 @@ const DEFAULTS = {
   reconnectBackoffMs: 1_000,
   maxReconnectBackoffMs: 30_000,
   registerOnConnect: true,
+  resumeGracePeriodMs: 0,
+  statsIntervalMs: 0,
+  ringTimeoutMs: 0,
+  unregisterTimeoutMs: 10_000,
+  failoverStrategy: "ordered",
+  endpointBackoffMs: 1_000,
+  maxEndpointBackoffMs: 30_000,
+  streamWindowBytes: DEFAULT_STREAM_WINDOW_BYTES,
+  maxFrameBytes: DEFAULT_MAX_FRAME_BYTES,
+  maxMessageBytes: DEFAULT_MAX_MESSAGE_BYTES,
+  compressionThresholdBytes: DEFAULT_COMPRESSION_THRESHOLD_BYTES,
+  encryption: false,
+  encryptionTimeoutMs: DEFAULT_E2E_HANDSHAKE_TIMEOUT_MS,
+  reliable: false,
+  retransmitTimeoutMs: RETRANSMIT_TIMEOUT_MS,
   debug: false,
 } as const;
 
-function encodeBase64(bytes: Uint8Array): string {
-  if (typeof Buffer !== "undefined") {
-    return Buffer.from(bytes).toString("base64");
-  }
-  let binary = "";
-  bytes.forEach((b) => {
-    binary += String.fromCharCode(b);
-  });
-  return btoa(binary);
-}
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
 
-function decodeBase64(data: unknown): Uint8Array {
-  if (typeof data === "string") {
-    if (typeof Buffer !== "undefined") {
-      return new Uint8Array(Buffer.from(data, "base64"));
-    }
-    const binary = atob(data);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i += 1) {
-      bytes[i] = binary.charCodeAt(i);
-    }
-    return bytes;
-  }
-  if (data instanceof ArrayBuffer) {
-    return new Uint8Array(data);
-  }
-  if (ArrayBuffer.isView(data)) {
-    const view = data as ArrayBufferView;
-    return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
-  }
-  if (typeof Buffer !== "undefined" && Buffer.isBuffer(data)) {
-    return new Uint8Array(data);
+type CallStream = TunnelStream | BrowserTunnelStream;
+type MsgFrame = Extract<SystemXOutboundMessage, { type: "MSG" }>;
+type InboundMsg = Extract<SystemXInboundMessage, { type: "MSG" }>;
+
+/** UTF-8 or a copy of the bytes of an outbound payload, for sealing. */
+function payloadBytes(data: unknown): Uint8Array {
+  if (data instanceof Uint8Array) {
+    return data.slice();
   }
-  return new Uint8Array();
+  return textEncoder.encode(typeof data === "string" ? data : String(data));
 }
 
 function toNodeBuffer(bytes: Uint8Array): Buffer {
   if (typeof Buffer === "undefined") {
     throw new Error("Buffer is not available in this environment");
   }
-  return Buffer.from(bytes);
+  // Wrap rather than copy; inbound payloads are never reused once delivered.
+  return Buffer.isBuffer(bytes) ? bytes : Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
 }
 
 function isRegisteredMessage(message: SystemXInboundMessage): message is Extract<SystemXInboundMessage, { type: "REGISTERED" }> {
@@ -104,7 +236,56 @@ function isBusyMessage(message: SystemXInboundMessage): message is Extract<Syste
 
 function isMsgMessage(message: SystemXInboundMessage): message is Extract<SystemXInboundMessage, { type: "MSG" }> {
   const msg = message as any;
-  return message.type === "MSG" && typeof msg.call_id === "string";
+  return (
+    message.type === "MSG" &&
+    typeof msg.call_id === "string" &&
+    (msg.stream === undefined || typeof msg.stream === "string") &&
+    (msg.fragment_id === undefined || typeof msg.fragment_id === "string") &&
+    (msg.compression === undefined || typeof msg.compression === "string") &&
+    (msg.e2e === undefined || typeof msg.e2e === "string") &&
+    (msg.seq === undefined || (Number.isInteger(msg.seq) && msg.seq > 0))
+  );
+}
+
+function isAckMessage(message: SystemXInboundMessage): message is Extract<SystemXInboundMessage, { type: "ACK" }> {
+  const msg = message as any;
+  return message.type === "ACK" && typeof msg.call_id === "string" && Number.isInteger(msg.seq) && msg.seq >= 0;
+}
+
+function isCreditMessage(message: SystemXInboundMessage): message is Extract<SystemXInboundMessage, { type: "CREDIT" }> {
+  const msg = message as any;
+  return (
+    message.type === "CREDIT" &&
+    typeof msg.call_id === "string" &&
+    (msg.stream === undefined || typeof msg.stream === "string") &&
+    Number.isFinite(msg.bytes) &&
+    msg.bytes > 0
+  );
+}
+
+function isStreamEndMessage(message: SystemXInboundMessage): message is Extract<SystemXInboundMessage, { type: "STREAM_END" }> {
+  const msg = message as any;
+  return message.type === "STREAM_END" && typeof msg.call_id === "string" && (msg.stream === undefined || typeof msg.stream === "string");
+}
+
+function isStreamCloseMessage(message: SystemXInboundMessage): message is Extract<SystemXInboundMessage, { type: "STREAM_CLOSE" }> {
+  const msg = message as any;
+  return message.type === "STREAM_CLOSE" && typeof msg.call_id === "string" && typeof msg.stream === "string";
+}
+
+function isResumedMessage(message: SystemXInboundMessage): message is Extract<SystemXInboundMessage, { type: "RESUMED" }> {
+  const msg = message as any;
+  return message.type === "RESUMED" && Array.isArray(msg.call_ids);
+}
+
+function isPresenceMessage(message: SystemXInboundMessage): message is Extract<SystemXInboundMessage, { type: "PRESENCE" }> {
+  const msg = message as any;
+  return message.type === "PRESENCE" && typeof msg.address === "string" && PRESENCE_STATUSES.has(msg.status);
+}
+
+function isProgressMessage(message: SystemXInboundMessage): message is ProgressMessage {
+  const msg = message as any;
+  return message.type in PROGRESS_STAGES && typeof msg.call_id === "string";
 }
 
 function isHangupMessage(message: SystemXInboundMessage): message is Extract<SystemXInboundMessage, { type: "HANGUP" }> {
@@ -113,7 +294,10 @@ function isHangupMessage(message: SystemXInboundMessage): message is Extract<Sys
 }
 
 export class Trimphone extends EventEmitter {
-  private readonly urls: string[];
+  /** Call detail records for finished calls, queryable with `history.query()`. */
+  readonly history: HistoryStore;
+
+  private readonly endpoints: EndpointPool;
   private readonly transportFactory: TransportFactory;
 
   private readonly autoReconnect: boolean;
@@ -122,24 +306,99 @@ export class Trimphone extends EventEmitter {
   private readonly registerOnConnect: boolean;
   private readonly maxReconnectBackoffMs: number;
   private readonly debugEnabled: boolean;
+  private readonly logger: TrimphoneLogger;
+  private readonly frameTraceHook: FrameTraceHook | null;
+  private readonly traceBinaryPayloads: boolean;
   private readonly baseReconnectBackoffMs: number;
+  private readonly resumeGracePeriodMs: number;
+  private readonly statsIntervalMs: number;
+  private readonly ringTimeoutMs: number;
+  private readonly unregisterTimeoutMs: number;
 
   private transport: Transport | null = null;
+  private transportUrl: string | null = null;
+  private lastConnectedUrl: string | null = null;
   private connectionState: ConnectionState = "disconnected";
   private connectPromise: Promise<void> | null = null;
   private sessionId: string | null = null;
   private registeredAddress: string | null = null;
   private registerOptions: Omit<RegisterOptions, "address"> | null = null;
   private registerDeferred: Deferred<void> | null = null;
+  private unregisterDeferred: Deferred<void> | null = null;
+  private unregisteringAddress: string | null = null;
+  /** True once REGISTERED arrived on the current connection. */
+  private registered = false;
+  private negotiated: ExchangeCapabilities | null = null;
+  private readonly preferredCodec: WireCodec;
+  private readonly binaryFrames: boolean;
+  private readonly streamWindowBytes: number;
+  private readonly maxFrameBytes: number;
+  private readonly maxMessageBytes: number;
+  private readonly compression: CompressionAlgorithm[];
+  private readonly compressionThresholdBytes: number;
+  private readonly encryption: boolean;
+  private readonly encryptionTimeoutMs: number;
+  private readonly reliable: boolean;
+  private readonly retransmitTimeoutMs: number;
+  /** Codec for outbound frames; reset to JSON on every new connection until REGISTERED. */
+  private activeCodec: WireCodec = jsonCodec;
+  private presence: { status: PresenceStatus; message?: string } | null = null;
+  private readonly presenceListeners: Map<string, Set<PresenceListener>> = new Map();
 
   private readonly pendingDials: PendingDial[] = [];
+  /** Correlation IDs of dials the caller gave up on, with the time they expire. */
+  private readonly abandonedDials: Map<string, number> = new Map();
   private readonly calls: Map<string, Call> = new Map();
-  private readonly streams: Map<string, TunnelStream | BrowserTunnelStream> = new Map();
+  /** Peer features both ends of each call listed in its metadata. */
+  private readonly peerFeatures: Map<string, PeerFeature[]> = new Map();
+  /** Open streams keyed by call ID, then by stream name. */
+  private readonly streams: Map<string, Map<string, CallStream>> = new Map();
+  /** Named substreams this side closed, so frames still in flight do not reopen them. */
+  private readonly closedStreams: Map<string, Set<string>> = new Map();
+  /** CREDIT grants that arrived before this side opened the call's default stream. */
+  private readonly pendingCredits: Map<string, number> = new Map();
+  /** CREDIT grants this side made while the call was suspended, by call and stream; sent once it resumes. */
+  private readonly heldCredits: Map<string, Map<string | undefined, number>> = new Map();
+  /** Partially received fragmented messages, per call. */
+  private readonly reassembly: Map<string, FragmentAssembler> = new Map();
+  /** Sends queued behind a fragmented or compressed message still going out, per call. */
+  private readonly sendQueues: Map<string, Promise<void>> = new Map();
+  /** Inbound call frames queued behind a message still being decrypted or decompressed, per call. */
+  private readonly receiveQueues: Map<string, Promise<void>> = new Map();
+  /** End-to-end key exchanges of encrypted calls, started or finished. */
+  private readonly e2eSessions: Map<string, E2eSession> = new Map();
+  /** Sequencing state of reliable calls. */
+  private readonly reliableChannels: Map<string, ReliableChannel<MsgFrame>> = new Map();
+  private readonly ackTimers: Map<string, NodeJS.Timeout> = new Map();
+  private readonly retransmitTimers: Map<string, NodeJS.Timeout> = new Map();
+  private readonly ringTimers: Map<string, NodeJS.Timeout> = new Map();
+  private ringHandler: RingHandler | null = null;
+  /** Calls this client asked the exchange to hang up, so the echoed HANGUP is attributed locally. */
+  private readonly localHangups = new Set<string>();
   private useWebStreams = false;
 
+  private readonly outboundBuffer: OutboundBuffer<SystemXOutboundMessage> | null;
+
+  private readonly middleware: Middleware[] = [];
+  /** Per-call promise chains that keep middleware-processed messages in order. */
+  private readonly messageChains: WeakMap<Call, Record<MessageContext["kind"], Promise<void>>> = new WeakMap();
+
+  private readonly suspendedCalls = new Set<string>();
+  private resumeSessionId: string | null = null;
+  private resumeTimer: NodeJS.Timeout | null = null;
+
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private heartbeatTimeoutTimer: NodeJS.Timeout | null = null;
   private lastHeartbeatAck = Date.now();
+  private lastHeartbeatSentAt: number | null = null;
+
+  private readonly traffic = new TrafficCounter();
+  private readonly compressionCounter = new CompressionCounter();
+  private readonly wire = new WireCounter();
+  private readonly callCounters = { placed: 0, received: 0, failed: {} as Record<string, number> };
+  private reconnectCount = 0;
+  private heartbeatRtt: { last: number | null; total: number; samples: number } = { last: null, total: 0, samples: 0 };
+  private statsTimer: NodeJS.Timeout | null = null;
 
   private reconnectTimer: NodeJS.Timeout | null = null;
   private currentReconnectDelay: number;
@@ -149,13 +408,14 @@ export class Trimphone extends EventEmitter {
   constructor(url: string | string[], options: TrimphoneOptions = {}) {
     super();
 
-    this.urls = Array.isArray(url) ? url : [url];
-    if (this.urls.length === 0) {
-      throw new Error("At least one SystemX endpoint URL is required");
-    }
-
     const merged = { ...DEFAULTS, ...options };
 
+    this.endpoints = new EndpointPool(Array.isArray(url) ? url : [url], {
+      strategy: merged.failoverStrategy,
+      backoffMs: merged.endpointBackoffMs,
+      maxBackoffMs: merged.maxEndpointBackoffMs,
+    });
+
     this.transportFactory = options.transportFactory ?? (() => createWebSocketTransport());
     this.autoReconnect = merged.autoReconnect;
     this.heartbeatIntervalMs = merged.heartbeatIntervalMs;
@@ -165,6 +425,30 @@ export class Trimphone extends EventEmitter {
     this.baseReconnectBackoffMs = merged.reconnectBackoffMs;
     this.currentReconnectDelay = merged.reconnectBackoffMs;
     this.debugEnabled = merged.debug;
+    this.logger = options.logger ?? (merged.debug ? createConsoleLogger("debug") : noopLogger);
+    this.frameTraceHook = options.onFrame ?? null;
+    this.traceBinaryPayloads = options.traceBinaryPayloads ?? false;
+    this.resumeGracePeriodMs = merged.resumeGracePeriodMs;
+    this.statsIntervalMs = merged.statsIntervalMs;
+    this.ringTimeoutMs = merged.ringTimeoutMs;
+    this.unregisterTimeoutMs = merged.unregisterTimeoutMs;
+    this.history = options.history ?? new MemoryHistoryStore();
+    this.preferredCodec = options.codec ?? jsonCodec;
+    this.binaryFrames = options.binaryFrames ?? false;
+    this.streamWindowBytes = merged.streamWindowBytes;
+    this.maxFrameBytes = merged.maxFrameBytes;
+    this.maxMessageBytes = merged.maxMessageBytes;
+    this.compression = options.compression ?? [];
+    this.compressionThresholdBytes = merged.compressionThresholdBytes;
+    this.encryption = merged.encryption;
+    this.encryptionTimeoutMs = merged.encryptionTimeoutMs;
+    this.reliable = merged.reliable;
+    this.retransmitTimeoutMs = merged.retransmitTimeoutMs;
+    this.outboundBuffer = options.outboundBuffer
+      ? new OutboundBuffer<SystemXOutboundMessage>(options.outboundBuffer, (frame, reason) => {
+          this.emit("outboundDropped", { frame, reason });
+        })
+      : null;
   }
 
   async register(address: string, options: Omit<RegisterOptions, "address"> = {}): Promise<void> {
@@ -211,16 +495,83 @@ export class Trimphone extends EventEmitter {
     return promise;
   }
 
+  /**
+   * Adds middleware that runs around outbound dials, inbound rings, and every
+   * `call.send()` / `message` event. Middleware runs in registration order.
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Installs a screening handler for inbound calls. It runs after `ring` listeners
+   * and may resolve asynchronously to "answer", "reject" or `{ forward: address }`.
+   */
+  onRing(handler: RingHandler | null): this {
+    this.ringHandler = handler;
+    return this;
+  }
+
+  /**
+   * Registers `address` unless already registered there and answers every call
+   * to it with a JSON-RPC server running `handlers`.
+   */
+  async serveRpc(address: string, handlers: RpcHandlers, options: Omit<RegisterOptions, "address"> = {}): Promise<RpcService> {
+    if (this.registeredAddress !== address || !this.registered) {
+      await this.register(address, options);
+    }
+    const onRing: TrimphoneEvents["ring"] = (call) => {
+      if (call.state === "ringing") {
+        new RpcServer(call, handlers);
+        call.answer();
+      }
+    };
+    this.on("ring", onRing);
+    return {
+      address,
+      stop: () => {
+        this.removeListener("ring", onRing);
+      },
+    };
+  }
+
   async dial(to: string, options: DialOptions = {}): Promise<Call> {
+    if (this.middleware.length === 0) {
+      return this.placeDial(to, options.metadata, options);
+    }
+
+    const ctx: DialContext = { kind: "dial", to, metadata: { ...options.metadata } };
+    await this.runMiddleware(ctx, async () => {
+      ctx.call = await this.placeDial(ctx.to, ctx.metadata, options);
+    });
+    if (!ctx.call) {
+      throw new TrimphoneError(`Dial to ${ctx.to} was rejected by middleware`, { address: ctx.to });
+    }
+    return ctx.call;
+  }
+
+  private async placeDial(
+    to: string,
+    metadata: Record<string, unknown> | undefined,
+    options: DialOptions,
+  ): Promise<Call> {
     if (!isValidAddress(to)) {
       throw new Error("Invalid SystemX address");
     }
+    if (options.signal?.aborted) {
+      throw new DialAbortedError(to);
+    }
 
     this.shouldAttemptReconnect = true;
     this.manualCloseRequested = false;
 
     await this.ensureConnected();
 
+    if (options.signal?.aborted) {
+      throw new DialAbortedError(to);
+    }
+
     const deferred: Deferred<Call> = {
       resolve: () => {},
       reject: () => {},
@@ -231,25 +582,224 @@ export class Trimphone extends EventEmitter {
       deferred.reject = reject;
     });
 
-    this.pendingDials.push({ to, metadata: options.metadata, deferred });
+    let timer: NodeJS.Timeout | null = null;
+    const { signal, timeoutMs } = options;
+    const compression = options.compression ?? this.compression;
+    if (compression.length > 0) {
+      metadata = { ...metadata, [COMPRESSION_METADATA_KEY]: compression };
+    }
+    const encrypt = options.encrypt ?? this.encryption;
+    if (encrypt) {
+      metadata = { ...metadata, [E2E_METADATA_KEY]: E2E_SCHEME };
+    }
+    const reliable = (options.reliable ?? this.reliable) && this.supports("acks");
+    if (reliable) {
+      metadata = { ...metadata, [RELIABLE_METADATA_KEY]: true };
+    }
+    const peerFeatures = this.offeredPeerFeatures();
+    if (peerFeatures.length > 0) {
+      metadata = { ...metadata, [PEER_FEATURES_METADATA_KEY]: peerFeatures };
+    }
 
-    this.send({
-      type: "DIAL",
+    const pending: PendingDial = {
+      id: createId("dial"),
       to,
-      metadata: options.metadata,
-    });
+      metadata,
+      deferred,
+      abandoned: false,
+      call: null,
+      onCall: options.onCall,
+      compression,
+      encrypt,
+      reliable,
+      cleanup: () => {
+        if (timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+        signal?.removeEventListener("abort", onAbort);
+      },
+    };
+
+    const abandon = (error: Error) => {
+      if (pending.abandoned) {
+        return;
+      }
+      pending.abandoned = true;
+      pending.cleanup();
+      const index = this.pendingDials.indexOf(pending);
+      if (index !== -1) {
+        this.pendingDials.splice(index, 1);
+      }
+      if (pending.call) {
+        // The exchange already knows the call; release it now rather than on CONNECTED.
+        this.hangupCall(pending.call.id, "cancelled");
+        this.endCall(pending.call.id, "cancelled", "local");
+      } else {
+        this.rememberAbandonedDial(pending.id);
+      }
+      deferred.reject(error);
+    };
+
+    const onAbort = () => abandon(new DialAbortedError(to));
+
+    if (timeoutMs !== undefined && timeoutMs > 0) {
+      timer = setTimeout(() => abandon(new DialTimeoutError(to, timeoutMs)), timeoutMs);
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    this.pendingDials.push(pending);
+    this.log("info", "Dialling", { to, dialId: pending.id });
+
+    try {
+      this.send({
+        type: "DIAL",
+        to,
+        metadata,
+        dial_id: pending.id,
+      });
+    } catch (error) {
+      pending.cleanup();
+      this.pendingDials.splice(this.pendingDials.indexOf(pending), 1);
+      throw error;
+    }
+    this.callCounters.placed += 1;
 
     return promise;
   }
 
+  async unregister(): Promise<void> {
+    const address = this.registeredAddress;
+    if (!address) {
+      return;
+    }
+
+    this.registeredAddress = null;
+    this.registerOptions = null;
+    this.presence = null;
+
+    if (!this.registered || this.connectionState !== "connected") {
+      this.registered = false;
+      return;
+    }
+
+    const deferred: Deferred<void> = {
+      resolve: () => {},
+      reject: () => {},
+    };
+
+    const promise = new Promise<void>((resolve, reject) => {
+      deferred.resolve = resolve;
+      deferred.reject = reject;
+    });
+
+    this.unregisterDeferred = deferred;
+    this.unregisteringAddress = address;
+    this.send({ type: "UNREGISTER" });
+    if (this.unregisterTimeoutMs <= 0) {
+      return promise;
+    }
+    const timer = setTimeout(() => {
+      if (this.unregisterDeferred === deferred) {
+        this.unregisterDeferred = null;
+        deferred.reject(
+          new TrimphoneError(`Unregistering ${address} timed out after ${this.unregisterTimeoutMs}ms`, { address, retryable: true }),
+        );
+      }
+    }, this.unregisterTimeoutMs);
+    return promise.finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Publishes the registered address's presence. The status is remembered and
+   * re-applied automatically after every (re-)registration.
+   */
+  setStatus(status: PresenceStatus, message?: string): void {
+    if (!PUBLISHABLE_STATUSES.has(status)) {
+      throw new Error(`Invalid presence status: ${status}`);
+    }
+    this.assertSupported("presence");
+    this.presence = { status, message };
+    if (this.registered && this.connectionState === "connected") {
+      this.sendStatusMessage();
+    }
+  }
+
+  /** Watches another address; the listener receives every presence change for it. */
+  async subscribe(address: string, listener: PresenceListener): Promise<void> {
+    if (!isValidAddress(address)) {
+      throw new Error("Invalid SystemX address");
+    }
+    this.assertSupported("presence");
+
+    let listeners = this.presenceListeners.get(address);
+    const isNew = !listeners;
+    if (!listeners) {
+      listeners = new Set();
+      this.presenceListeners.set(address, listeners);
+    }
+    listeners.add(listener);
+
+    this.shouldAttemptReconnect = true;
+    this.manualCloseRequested = false;
+
+    const wasConnected = this.connectionState === "connected";
+    await this.ensureConnected();
+
+    // A fresh connection re-sends every subscription on open.
+    if (isNew && wasConnected && this.presenceListeners.has(address)) {
+      this.send({ type: "SUBSCRIBE", address });
+    }
+  }
+
+  /** Stops watching an address. Without a listener, every listener for it is removed. */
+  unsubscribe(address: string, listener?: PresenceListener): void {
+    const listeners = this.presenceListeners.get(address);
+    if (!listeners) {
+      return;
+    }
+    if (listener) {
+      listeners.delete(listener);
+    } else {
+      listeners.clear();
+    }
+    if (listeners.size > 0) {
+      return;
+    }
+
+    this.presenceListeners.delete(address);
+    if (this.connectionState === "connected") {
+      this.send({ type: "UNSUBSCRIBE", address });
+    }
+  }
+
   heartbeat(): void {
     if (this.connectionState !== "connected") {
       return;
     }
-    this.send({ type: "HEARTBEAT" });
+    this.sendHeartbeat();
     this.scheduleHeartbeatTimeout();
   }
 
+  /** Snapshot of client-wide counters. */
+  getStats(): TrimphoneStats {
+    const rtt = this.heartbeatRtt;
+    return {
+      timestamp: Date.now(),
+      ...this.traffic.snapshot(),
+      callsPlaced: this.callCounters.placed,
+      callsReceived: this.callCounters.received,
+      callsFailed: { ...this.callCounters.failed },
+      activeCalls: this.calls.size,
+      activeStreams: Array.from(this.streams.values()).reduce((total, streams) => total + streams.size, 0),
+      reconnects: this.reconnectCount,
+      heartbeatRttMs: rtt.last,
+      averageHeartbeatRttMs: rtt.samples > 0 ? rtt.total / rtt.samples : null,
+      compression: this.compressionCounter.snapshot(),
+      wire: this.wire.snapshot(),
+    };
+  }
+
   async reconnect(): Promise<void> {
     this.shouldAttemptReconnect = true;
     this.manualCloseRequested = false;
@@ -262,12 +812,52 @@ export class Trimphone extends EventEmitter {
     this.manualCloseRequested = true;
     this.clearHeartbeatTimers();
     this.clearReconnectTimer();
+    this.stopStatsTimer();
+    this.clearRingTimers();
+    this.endSuspendedCalls("disconnected");
+    this.outboundBuffer?.clear("closed");
 
     if (this.transport) {
       this.transport.close(code, reason);
     }
   }
 
+  /**
+   * Protocol version and optional features agreed with the exchange during the
+   * last registration, or null before the first REGISTERED.
+   */
+  get capabilities(): ExchangeCapabilities | null {
+    return this.negotiated ? { ...this.negotiated, features: [...this.negotiated.features] } : null;
+  }
+
+  /**
+   * Whether an optional feature may be used. Until the exchange has answered, only
+   * the legacy features every exchange supports are assumed.
+   */
+  supports(feature: TrimphoneFeature): boolean {
+    return (this.negotiated?.features ?? LEGACY_FEATURES).includes(feature);
+  }
+
+  /** Peer features this side lists on its calls: those the exchange accepted. */
+  private offeredPeerFeatures(): PeerFeature[] {
+    return PEER_FEATURES.filter((feature) => this.supports(feature));
+  }
+
+  /** Whether both ends of the call listed a peer feature in its metadata. */
+  private peerSupports(callId: string, feature: PeerFeature): boolean {
+    return this.peerFeatures.get(callId)?.includes(feature) ?? false;
+  }
+
+  /** URL of the endpoint the client is currently connected to, if any. */
+  get endpoint(): string | null {
+    return this.connectionState === "connected" ? this.transportUrl : null;
+  }
+
+  /** Health snapshot for every configured endpoint. */
+  getEndpointHealth(): EndpointHealth[] {
+    return this.endpoints.snapshot();
+  }
+
   override on<Event extends EventKeys>(event: Event, listener: TrimphoneEvents[Event]): this {
     return super.on(event, listener);
   }
@@ -287,55 +877,136 @@ export class Trimphone extends EventEmitter {
 
     this.connectionState = "connecting";
 
+    this.connectPromise = (async () => {
+      const attempted = new Set<string>();
+      let lastError: Error | null = null;
+
+      while (attempted.size < this.endpoints.size) {
+        const url = this.endpoints.next(attempted);
+        attempted.add(url);
+        try {
+          await this.openTransport(url);
+          return;
+        } catch (error) {
+          lastError = error as Error;
+          this.endpoints.markFailure(url);
+          this.log("warn", "Endpoint connection failed", { url, error: lastError.message });
+          if (this.manualCloseRequested) {
+            break;
+          }
+        }
+      }
+
+      this.connectionState = "disconnected";
+      this.connectPromise = null;
+      throw new DisconnectedError(
+        `Unable to connect to any SystemX endpoint${lastError ? `: ${lastError.message}` : ""}`,
+        { cause: lastError ?? undefined },
+      );
+    })();
+
+    return this.connectPromise;
+  }
+
+  private openTransport(url: string): Promise<void> {
     const transport = this.transportFactory();
     this.transport = transport;
+    this.transportUrl = url;
     this.useWebStreams = (transport as any).platform === "browser";
 
-    transport.on("message", (raw) => this.handleRawMessage(raw));
-    transport.on("close", (code: number, reason?: string) => this.handleTransportClose(code, reason));
+    // Listeners stay attached for the transport's lifetime, so ignore events
+    // from transports that have since been replaced by a failover attempt.
+    transport.on("message", (raw) => {
+      if (this.transport === transport) {
+        this.handleRawMessage(raw);
+      }
+    });
+    transport.on("close", (code: number, reason?: string) => {
+      if (this.transport === transport && this.connectionState === "connected") {
+        this.handleTransportClose(code, reason);
+      }
+    });
     transport.on("error", (error: Error) => this.handleTransportError(error));
 
-    this.connectPromise = new Promise<void>((resolve, reject) => {
-      const handleOpen = () => {
+    return new Promise<void>((resolve, reject) => {
+      let settled = false;
+
+      const detach = () => {
         transport.off("open", handleOpen);
         transport.off("error", handleConnectError);
+        transport.off("close", handleConnectClose);
+      };
+
+      const handleOpen = () => {
+        detach();
+        if (settled) {
+          return;
+        }
+        settled = true;
+
+        const previousUrl = this.lastConnectedUrl;
+        this.lastConnectedUrl = url;
+        this.activeCodec = jsonCodec;
+        if (previousUrl !== null) {
+          this.reconnectCount += 1;
+        }
+        this.endpoints.markSuccess(url);
 
         this.connectionState = "connected";
         this.connectPromise = null;
         this.currentReconnectDelay = this.baseReconnectBackoffMs;
+        this.log("info", "Connected", { url });
         this.emit("connected");
+        if (previousUrl !== null && previousUrl !== url) {
+          this.log("warn", "Failed over to another endpoint", { from: previousUrl, to: url });
+          this.emit("failover", { from: previousUrl, to: url });
+        }
         this.startHeartbeat();
+        this.startStatsTimer();
 
         if (this.registeredAddress && this.registerOnConnect) {
           this.sendRegisterMessage();
         }
+        if (this.supports("presence")) {
+          for (const address of this.presenceListeners.keys()) {
+            this.send({ type: "SUBSCRIBE", address });
+          }
+        }
+        if (this.suspendedCalls.size === 0) {
+          this.flushOutboundBuffer();
+        }
 
         resolve();
       };
 
       const handleConnectError = (error: Error) => {
-        transport.off("open", handleOpen);
-        transport.off("error", handleConnectError);
+        detach();
+        if (settled) {
+          return;
+        }
+        settled = true;
 
-        if (this.connectionState === "connecting") {
-          this.connectionState = "disconnected";
-          this.connectPromise = null;
-          reject(error);
+        if (this.transport === transport) {
+          this.transport = null;
+          this.transportUrl = null;
         }
+        reject(error);
+      };
+
+      const handleConnectClose = (code: number) => {
+        handleConnectError(new Error(`Transport closed before opening (code ${code})`));
       };
 
       transport.on("open", handleOpen);
       transport.on("error", handleConnectError);
+      transport.on("close", handleConnectClose);
 
-      const targetUrl = this.urls[0];
       transport
-        .connect({ url: targetUrl })
+        .connect({ url })
         .catch((error) => {
           handleConnectError(error as Error);
         });
     });
-
-    return this.connectPromise;
   }
 
   private handleTransportClose(code: number, reason?: string) {
@@ -343,31 +1014,51 @@ export class Trimphone extends EventEmitter {
       return;
     }
 
-    if (this.debugEnabled) {
-      console.debug("Trimphone transport closed", { code, reason });
-    }
+    this.log("info", "Transport closed", { url: this.transportUrl, code, reason });
 
     this.connectionState = "disconnected";
     this.transport = null;
+    this.transportUrl = null;
     this.connectPromise = null;
 
     this.clearHeartbeatTimers();
 
-    this.registerDeferred?.reject(new Error("Disconnected"));
+    this.registered = false;
+    this.registerDeferred?.reject(new DisconnectedError("Disconnected", { address: this.registeredAddress ?? undefined }));
     this.registerDeferred = null;
+    // The session is gone with the socket, so the address is no longer registered.
+    this.unregisterDeferred?.resolve();
+    this.unregisterDeferred = null;
 
     while (this.pendingDials.length > 0) {
       const pending = this.pendingDials.shift();
-      pending?.deferred.reject(new Error("Disconnected"));
+      pending?.cleanup();
+      if (pending && !pending.abandoned) {
+        pending.deferred.reject(new DisconnectedError("Disconnected", { address: pending.to }));
+      }
     }
 
-    for (const [, call] of this.calls) {
-      call.receiveHangup("disconnected");
-    }
-    this.calls.clear();
+    const canResume =
+      this.resumeGracePeriodMs > 0 &&
+      this.supports("resume") &&
+      this.sessionId !== null &&
+      this.autoReconnect &&
+      this.shouldAttemptReconnect &&
+      !this.manualCloseRequested;
+
+    if (canResume && this.calls.size > 0) {
+      this.suspendCalls();
+    } else {
+      for (const callId of Array.from(this.calls.keys())) {
+        this.endCall(callId, "disconnected");
+      }
+      this.suspendedCalls.clear();
+      this.clearResumeTimer();
+      this.clearRingTimers();
 
-    for (const callId of Array.from(this.streams.keys())) {
-      this.closeStream(callId);
+      for (const callId of Array.from(this.streams.keys())) {
+        this.closeStreams(callId);
+      }
     }
 
     this.emit("disconnected", { code, reason });
@@ -378,55 +1069,117 @@ export class Trimphone extends EventEmitter {
   }
 
   private handleTransportError(error: Error) {
-    if (this.debugEnabled) {
-      console.debug("Trimphone transport error", error);
-    }
+    this.log("error", "Transport error", { url: this.transportUrl, error: error.message });
     this.emit("error", error);
   }
 
   private handleRawMessage(raw: unknown) {
-    let json: string | null = null;
+    let encoded: string | Uint8Array | null = null;
 
     if (typeof raw === "string") {
-      json = raw;
-    } else if (Buffer.isBuffer(raw)) {
-      json = raw.toString("utf8");
+      encoded = raw;
     } else if (raw instanceof ArrayBuffer) {
-      json = Buffer.from(raw).toString("utf8");
+      encoded = new Uint8Array(raw);
+    } else if (ArrayBuffer.isView(raw)) {
+      encoded = new Uint8Array(raw.buffer, raw.byteOffset, raw.byteLength);
     }
 
-    if (!json) {
+    if (!encoded || encoded.length === 0) {
       return;
     }
 
+    if (typeof encoded !== "string" && isBinaryFrame(encoded)) {
+      this.handleBinaryFrame(encoded);
+      return;
+    }
+
+    // The exchange switches codec right after REGISTERED, so sniff each frame
+    // rather than trusting the negotiated codec.
+    let codec: WireCodec = jsonCodec;
+    if (typeof encoded === "string") {
+      codec = this.activeCodec.binary ? jsonCodec : this.activeCodec;
+    } else if (this.preferredCodec.binary && !isJsonText(encoded)) {
+      codec = this.preferredCodec;
+    }
+
     let payload: SystemXInboundMessage;
     try {
-      payload = JSON.parse(json);
+      payload = codec.decode(encoded) as SystemXInboundMessage;
     } catch (error) {
-      this.emit("error", new Error(`Failed to parse incoming message: ${(error as Error).message}`));
+      this.emit("error", new ProtocolError(`Failed to parse incoming message: ${(error as Error).message}`, encoded));
       return;
     }
 
+    this.recordFrame("inbound", payload, encoded);
+
     this.handleMessage(payload);
   }
 
+  private handleBinaryFrame(encoded: Uint8Array) {
+    let frame: ReturnType<typeof decodeBinaryFrame>;
+    try {
+      frame = decodeBinaryFrame(encoded);
+    } catch (error) {
+      this.emit("error", new ProtocolError(`Failed to parse binary frame: ${(error as Error).message}`, encoded));
+      return;
+    }
+
+    const message: SystemXInboundMessage = { type: "MSG", call_id: frame.callId, data: frame.data, content_type: "binary" };
+    if (frame.stream !== undefined) {
+      message.stream = frame.stream;
+    }
+    this.recordFrame("inbound", message, encoded);
+    this.handleMessage(message);
+  }
+
   private handleMessage(message: SystemXInboundMessage) {
     switch (message.type) {
       case "REGISTERED":
         if (!isRegisteredMessage(message)) {
-          this.emit("error", new Error("Malformed REGISTERED message"));
+          this.reportMalformed(message);
           break;
         }
         this.sessionId = message.session_id ?? null;
+        this.registered = true;
+        this.negotiated = negotiateCapabilities({ features: this.offeredFeatures(), codecs: this.offeredCodecs() }, message);
+        if (this.negotiated.codec === this.preferredCodec.name) {
+          this.activeCodec = this.preferredCodec;
+        }
+        this.log("info", "Registered", { sessionId: this.sessionId, ...this.negotiated });
         this.registerDeferred?.resolve();
         if (this.registeredAddress) {
           this.emit("registered", this.registeredAddress);
         }
         this.registerDeferred = null;
+        if (this.presence && this.supports("presence")) {
+          this.sendStatusMessage();
+        }
+        this.requestResume();
+        break;
+
+      case "UNREGISTERED":
+        this.handleUnregistered(message as Extract<SystemXInboundMessage, { type: "UNREGISTERED" }>);
+        break;
+
+      case "PRESENCE":
+        if (isPresenceMessage(message)) {
+          this.handlePresence(message);
+        } else {
+          this.reportMalformed(message);
+        }
+        break;
+
+      case "RESUMED":
+        if (isResumedMessage(message)) {
+          this.handleResumed(message);
+        } else {
+          this.reportMalformed(message);
+        }
         break;
 
       case "REGISTER_FAILED":
-        this.registerDeferred?.reject(new Error(`Registration failed: ${message.reason}`));
+        this.log("error", "Registration failed", { reason: message.reason });
+        this.registerDeferred?.reject(new RegistrationError(this.registeredAddress ?? "", String(message.reason)));
         this.emit("registrationFailed", message.reason);
         this.registerDeferred = null;
         break;
@@ -434,35 +1187,94 @@ export class Trimphone extends EventEmitter {
       case "RING":
         if (isRingMessage(message)) {
           this.handleIncomingRing(message);
+        } else {
+          this.reportMalformed(message);
         }
         break;
 
       case "CONNECTED":
         if (isConnectedMessage(message)) {
           this.handleConnected(message);
+        } else {
+          this.reportMalformed(message);
         }
         break;
 
       case "BUSY":
         if (isBusyMessage(message)) {
           this.handleBusy(message);
+        } else {
+          this.reportMalformed(message);
+        }
+        break;
+
+      case "RINGING":
+      case "QUEUED":
+      case "PROGRESS":
+        if (isProgressMessage(message)) {
+          this.handleProgress(message);
+        } else {
+          this.reportMalformed(message);
         }
         break;
 
       case "MSG":
         if (isMsgMessage(message)) {
           this.handleCallMessage(message);
+        } else {
+          this.reportMalformed(message);
+        }
+        break;
+
+      case "ACK":
+        if (isAckMessage(message)) {
+          this.handleAck(message.call_id, message.seq);
+        } else {
+          this.reportMalformed(message);
+        }
+        break;
+
+      case "CREDIT":
+        if (isCreditMessage(message)) {
+          this.handleCredit(message);
+        } else {
+          this.reportMalformed(message);
+        }
+        break;
+
+      case "STREAM_END":
+        if (isStreamEndMessage(message)) {
+          this.handleStreamEnd(message);
+        } else {
+          this.reportMalformed(message);
+        }
+        break;
+
+      case "STREAM_CLOSE":
+        if (isStreamCloseMessage(message)) {
+          this.handleStreamClose(message);
+        } else {
+          this.reportMalformed(message);
         }
         break;
 
       case "HANGUP":
         if (isHangupMessage(message)) {
           this.handleHangup(message);
+        } else {
+          this.reportMalformed(message);
         }
         break;
 
       case "HEARTBEAT_ACK":
         this.lastHeartbeatAck = Date.now();
+        if (this.lastHeartbeatSentAt !== null) {
+          const rtt = this.lastHeartbeatAck - this.lastHeartbeatSentAt;
+          this.heartbeatRtt.last = rtt;
+          this.heartbeatRtt.total += rtt;
+          this.heartbeatRtt.samples += 1;
+          this.lastHeartbeatSentAt = null;
+        }
         this.emit("heartbeatAck", message.timestamp);
         if (this.heartbeatTimeoutTimer) {
           clearTimeout(this.heartbeatTimeoutTimer);
@@ -476,54 +1288,331 @@ export class Trimphone extends EventEmitter {
   }
 
   private handleIncomingRing(message: Extract<SystemXInboundMessage, { type: "RING" }>) {
+    if (!this.admitCaller(message)) {
+      return;
+    }
+
     const controller = this.createCallController();
     const call = new Call({
       id: message.call_id,
       from: message.from,
-      metadata: message.metadata,
+      metadata: message.metadata ?? {},
       direction: "inbound",
       controller,
     });
 
+    call.setCompression(selectCompression(call.metadata?.[COMPRESSION_METADATA_KEY], this.compression));
+    this.peerFeatures.set(call.id, agreePeerFeatures(this.offeredPeerFeatures(), call.metadata?.[PEER_FEATURES_METADATA_KEY]));
     this.calls.set(message.call_id, call);
-    this.emit("ring", call);
-  }
+    this.callCounters.received += 1;
+    this.log("info", "Incoming call", { callId: call.id, from: call.from });
+    this.startRingTimer(call);
 
-  private handleConnected(message: Extract<SystemXInboundMessage, { type: "CONNECTED" }>) {
-    let call = this.calls.get(message.call_id);
+    if (this.middleware.length === 0) {
+      this.presentCall(call);
+      return;
+    }
+
+    // The call is tracked before middleware runs so frames arriving meanwhile are not lost.
+    let delivered = false;
+    const ctx: RingContext = { kind: "ring", call, from: message.from, metadata: call.metadata ?? {} };
+    this.runMiddleware(ctx, () => {
+      delivered = true;
+      this.presentCall(call);
+    })
+      .catch((error) => {
+        if (delivered) {
+          this.reportError(error as Error, call);
+        }
+      })
+      .finally(() => {
+        // Middleware that wants another reason calls `ctx.call.reject(reason)` itself.
+        if (!delivered && call.isRinging) {
+          call.reject("forbidden");
+        }
+      });
+  }
+
+  /** Applies the registration ACL; refused callers are rejected before a Call exists. */
+  private admitCaller(message: Extract<SystemXInboundMessage, { type: "RING" }>): boolean {
+    const acl = this.registerOptions?.acl;
+    if (!acl) {
+      return true;
+    }
+
+    const metadata = message.metadata ?? {};
+    let decision: AclDecision;
+    try {
+      decision = evaluateAcl(acl, message.from, metadata);
+    } catch (error) {
+      // A throwing predicate fails closed.
+      this.reportError(error as Error);
+      decision = { allowed: false, reason: "denied" };
+    }
+    if (decision.allowed) {
+      return true;
+    }
+
+    this.log("warn", "Caller refused by ACL", { callId: message.call_id, from: message.from, reason: decision.reason });
+    this.sendRefusal(message.call_id, "forbidden");
+    this.emit("accessDenied", { callId: message.call_id, from: message.from, metadata, reason: decision.reason });
+    return false;
+  }
+
+  private presentCall(call: Call) {
+    this.emit("ring", call);
+    if (this.ringHandler && call.isRinging) {
+      void this.screenCall(call, this.ringHandler);
+    }
+  }
+
+  private async screenCall(call: Call, handler: RingHandler) {
+    let decision: RingDecision | void;
+    try {
+      decision = await handler(call);
+    } catch (error) {
+      this.reportError(error as Error, call);
+      decision = "reject";
+    }
+
+    // A listener, the caller or the no-answer timer may have settled the call meanwhile.
+    if (!call.isRinging || !decision) {
+      return;
+    }
+
+    try {
+      if (decision === "answer") {
+        call.answer();
+      } else if (decision === "reject") {
+        call.reject();
+      } else if ("forward" in decision) {
+        call.forward(decision.forward);
+      } else {
+        call.reject(decision.reject);
+      }
+    } catch (error) {
+      // For instance an invalid forwarding address; the caller should not be left ringing.
+      this.reportError(error as Error, call);
+      if (call.isRinging) {
+        call.reject();
+      }
+    }
+  }
+
+  private startRingTimer(call: Call) {
+    if (this.ringTimeoutMs <= 0) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.ringTimers.delete(call.id);
+      if (call.isRinging) {
+        this.log("info", "Ring timed out", { callId: call.id, from: call.from });
+        this.rejectCall(call.id, "no_answer", "system");
+      }
+    }, this.ringTimeoutMs);
+    this.ringTimers.set(call.id, timer);
+  }
+
+  private clearRingTimer(callId: string) {
+    const timer = this.ringTimers.get(callId);
+    if (timer) {
+      clearTimeout(timer);
+      this.ringTimers.delete(callId);
+    }
+  }
+
+  private clearRingTimers() {
+    for (const timer of this.ringTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.ringTimers.clear();
+  }
+
+  private handleConnected(message: Extract<SystemXInboundMessage, { type: "CONNECTED" }>) {
+    const existing = this.calls.get(message.call_id);
+    if (existing && !this.isDialling(existing)) {
+      existing.setConnected();
+      return;
+    }
+
+    if (typeof message.dial_id === "string" && this.forgetAbandonedDial(message.dial_id)) {
+      // The caller gave up before the exchange connected us; release the callee.
+      this.send({ type: "HANGUP", call_id: message.call_id, reason: "cancelled" });
+      return;
+    }
+    const pending = this.dequeuePendingDial(message.to, message.dial_id, message.call_id);
+    if (!pending) {
+      return;
+    }
+    pending.cleanup();
+    const call = pending.call ?? this.createOutboundCall(message);
+    call.setCompression(selectCompression(message.metadata?.[COMPRESSION_METADATA_KEY], pending.compression));
+    this.peerFeatures.set(call.id, agreePeerFeatures(this.offeredPeerFeatures(), message.metadata?.[PEER_FEATURES_METADATA_KEY]));
+    // Only once the callee echoes the flag: it would ignore sequence numbers otherwise and never ACK.
+    if (message.metadata?.[RELIABLE_METADATA_KEY] === true && this.supports("acks")) {
+      this.startReliableDelivery(call.id);
+    }
+    if (pending.encrypt || message.metadata?.[E2E_METADATA_KEY] === E2E_SCHEME) {
+      this.startEncryption(call.id);
+    }
+    this.log("info", "Call connected", { callId: call.id, to: call.to });
+    pending.deferred.resolve(call);
+    call.setConnected();
+  }
+
+  private handleProgress(message: ProgressMessage) {
+    let call = this.calls.get(message.call_id);
     if (!call) {
-      const pending = this.dequeuePendingDial(message.to);
-      if (!pending) {
+      const pending = this.findPendingDial(message.to, message.dial_id, message.call_id);
+      if (!pending || pending.abandoned || pending.call) {
         return;
       }
-      call = new Call({
-        id: message.call_id,
-        to: message.to,
-        from: message.from,
-        metadata: message.metadata,
-        direction: "outbound",
-        controller: this.createCallController(),
-      });
-      this.calls.set(message.call_id, call);
-      pending.deferred.resolve(call);
+      call = this.createOutboundCall(message);
+      pending.call = call;
+      pending.onCall?.(call);
     }
-    call.setConnected();
+    if (!this.isDialling(call)) {
+      return;
+    }
+
+    const progress: CallProgress = { stage: PROGRESS_STAGES[message.type] };
+    if (message.type === "QUEUED" && typeof message.position === "number") {
+      progress.position = message.position;
+    }
+    if (message.type === "PROGRESS" && typeof message.message === "string") {
+      progress.message = message.message;
+    }
+    this.log("debug", "Call progress", { callId: call.id, ...progress });
+    call.receiveProgress(progress);
+  }
+
+  private createOutboundCall(message: { call_id: string; to?: string; from?: string; metadata?: Record<string, unknown> }): Call {
+    const call = new Call({
+      id: message.call_id,
+      to: message.to,
+      from: message.from,
+      metadata: message.metadata,
+      direction: "outbound",
+      controller: this.createCallController(),
+    });
+    this.calls.set(call.id, call);
+    return call;
+  }
+
+  /** True for outbound calls the exchange is still routing (created by progress frames). */
+  private isDialling(call: Call): boolean {
+    return call.direction === "outbound" && (call.state === "pending" || call.state === "ringing");
   }
 
   private handleBusy(message: Extract<SystemXInboundMessage, { type: "BUSY" }>) {
-    const pending = this.dequeuePendingDial(message.to);
-    if (pending) {
-      pending.deferred.reject(new Error(`Call failed: ${message.reason}`));
+    if (typeof message.dial_id === "string" && this.forgetAbandonedDial(message.dial_id)) {
+      return;
+    }
+    const pending = this.dequeuePendingDial(message.to, message.dial_id, message.call_id);
+    if (!pending) {
+      return;
+    }
+    pending.cleanup();
+    this.callCounters.failed[message.reason] = (this.callCounters.failed[message.reason] ?? 0) + 1;
+    this.log("warn", "Dial failed", { to: pending.to, dialId: pending.id, reason: message.reason });
+    if (pending.call) {
+      this.endCall(pending.call.id, message.reason, "remote");
+    }
+    if (!pending.abandoned) {
+      // Reasons this client does not know are reported as "offline", the generic retryable one.
+      pending.deferred.reject(new DialBusyError(pending.to, isBusyReason(message.reason) ? message.reason : "offline"));
+    }
+  }
+
+  private handleCredit(message: Extract<SystemXInboundMessage, { type: "CREDIT" }>) {
+    if (!this.calls.has(message.call_id)) {
+      return;
+    }
+    if (message.stream !== undefined && message.stream !== DEFAULT_STREAM_NAME) {
+      // The opening side announces a substream with its initial window.
+      this.getRemoteStream(message.call_id, message.stream)?.grantCredit(message.bytes);
+      return;
+    }
+    const stream = this.streams.get(message.call_id)?.get(DEFAULT_STREAM_NAME);
+    if (stream) {
+      stream.grantCredit(message.bytes);
+    } else {
+      this.pendingCredits.set(message.call_id, (this.pendingCredits.get(message.call_id) ?? 0) + message.bytes);
+    }
+  }
+
+  private handleStreamEnd(message: Extract<SystemXInboundMessage, { type: "STREAM_END" }>) {
+    if (!this.calls.has(message.call_id)) {
+      return;
+    }
+    const stream =
+      message.stream !== undefined && message.stream !== DEFAULT_STREAM_NAME
+        ? this.getRemoteStream(message.call_id, message.stream)
+        : this.streams.get(message.call_id)?.get(DEFAULT_STREAM_NAME);
+    stream?.endFromRemote();
+  }
+
+  private handleStreamClose(message: Extract<SystemXInboundMessage, { type: "STREAM_CLOSE" }>) {
+    if (this.calls.has(message.call_id) && this.streams.get(message.call_id)?.has(message.stream)) {
+      this.markStreamClosed(message.call_id, message.stream);
+      this.closeStream(message.call_id, message.stream);
     }
   }
 
-  private handleCallMessage(message: Extract<SystemXInboundMessage, { type: "MSG" }>) {
+  private handleCallMessage(message: InboundMsg) {
     const call = this.calls.get(message.call_id);
     if (!call) {
       return;
     }
 
+    if (message.seq !== undefined) {
+      // A peer may sequence its frames without having asked in the dial metadata.
+      const verdict = this.startReliableDelivery(message.call_id).receive(message.seq);
+      this.scheduleAck(message.call_id);
+      if (verdict !== "new") {
+        this.log("debug", "Dropping out-of-sequence frame", { callId: message.call_id, seq: message.seq, verdict });
+        return;
+      }
+    }
+
+    if (message.fragment_id !== undefined) {
+      this.handleFragment(message, message.fragment_id);
+      return;
+    }
+    const encrypted = message.e2e !== undefined || this.e2eSessions.has(message.call_id);
+    if (encrypted || message.compression !== undefined || this.receiveQueues.has(message.call_id)) {
+      // Later frames wait for a message being decrypted or decompressed so the call sees them in order.
+      this.queueCallTask(this.receiveQueues, message.call_id, async () => {
+        let restored: InboundMsg | null = encrypted ? await this.unsealMessage(message) : message;
+        if (restored?.compression !== undefined) {
+          restored = await this.inflateMessage(restored, restored.compression);
+        }
+        const current = this.calls.get(message.call_id);
+        if (restored && current) {
+          this.dispatchCallMessage(current, restored);
+        }
+      }).catch((error) => {
+        this.emit("error", error as Error);
+      });
+      return;
+    }
+    this.dispatchCallMessage(call, message);
+  }
+
+  private dispatchCallMessage(call: Call, message: InboundMsg) {
+    if (message.stream !== undefined && message.stream !== DEFAULT_STREAM_NAME) {
+      this.handleSubstreamMessage(message, message.stream);
+      return;
+    }
+
     let data = message.data;
+    if (message.content_type === "binary") {
+      data = decodeBase64(data);
+      this.recordTraffic(message.call_id, "received", "binary", (data as Uint8Array).byteLength);
+    } else {
+      this.recordTraffic(message.call_id, "received", message.content_type ?? "text", payloadSize(data));
+    }
+
     if (message.content_type === "json" && typeof data === "string") {
       try {
         data = JSON.parse(data);
@@ -531,30 +1620,200 @@ export class Trimphone extends EventEmitter {
         // Ignore parse failures and fall back to raw string.
       }
     } else if (message.content_type === "binary") {
-      const bytes = decodeBase64(data);
-      const stream = this.streams.get(message.call_id);
-      if (stream instanceof BrowserTunnelStream) {
-        stream.pushChunk(bytes);
-      } else if (stream instanceof TunnelStream) {
-        stream.pushChunk(toNodeBuffer(bytes));
-      }
-      call.receiveMessage(this.useWebStreams ? bytes : toNodeBuffer(bytes));
+      const bytes = data as Uint8Array;
+      this.pushStreamChunk(this.streams.get(message.call_id)?.get(DEFAULT_STREAM_NAME), bytes);
+      this.deliverMessage(call, this.useWebStreams ? bytes : toNodeBuffer(bytes), "binary");
       return;
     } else if (message.content_type === "text" && typeof data === "string") {
       // Convert text to bytes and push to stream
-      const encoder = new TextEncoder();
-      const bytes = encoder.encode(data);
-      const stream = this.streams.get(message.call_id);
-      if (stream instanceof BrowserTunnelStream) {
-        stream.pushChunk(bytes);
-      } else if (stream instanceof TunnelStream) {
-        stream.pushChunk(toNodeBuffer(bytes));
+      const bytes = textEncoder.encode(data);
+      this.pushStreamChunk(this.streams.get(message.call_id)?.get(DEFAULT_STREAM_NAME), bytes);
+      this.deliverMessage(call, this.useWebStreams ? bytes : toNodeBuffer(bytes), "text");
+      return;
+    }
+
+    this.deliverMessage(call, data, message.content_type ?? "text");
+  }
+
+  /** Collects a fragment and delivers the message once all of its fragments are in. */
+  private handleFragment(message: InboundMsg, fragmentId: string) {
+    let assembler = this.reassembly.get(message.call_id);
+    if (!assembler) {
+      assembler = new FragmentAssembler(this.maxMessageBytes);
+      this.reassembly.set(message.call_id, assembler);
+    }
+
+    const result = assembler.add({
+      id: fragmentId,
+      index: message.fragment_index ?? -1,
+      count: message.fragment_count ?? 0,
+      data: decodeBase64(message.data),
+    });
+    if (result.status === "invalid") {
+      this.reportMalformed(message);
+    } else if (result.status === "too_large") {
+      this.log("warn", "Dropping oversized message", { callId: message.call_id, size: result.size });
+      this.emit("error", new MessageTooLargeError(message.call_id, this.maxMessageBytes));
+    } else if (result.status === "complete") {
+      const keepBytes = message.content_type === "binary" || message.compression !== undefined || message.e2e !== undefined;
+      this.handleCallMessage({
+        type: "MSG",
+        call_id: message.call_id,
+        data: keepBytes ? result.data : textDecoder.decode(result.data),
+        content_type: message.content_type,
+        stream: message.stream,
+        compression: message.compression,
+        e2e: message.e2e,
+      });
+    }
+  }
+
+  /**
+   * Completes the key exchange on the peer's key frame and opens sealed payloads.
+   * Anything else on an encrypted call hangs it up; returns null when there is nothing to deliver.
+   */
+  private async unsealMessage(message: InboundMsg): Promise<InboundMsg | null> {
+    const callId = message.call_id;
+    if (message.e2e === "key") {
+      // The peer may start the exchange without having asked in the dial metadata.
+      const session = this.startEncryption(callId);
+      try {
+        await session.accept(decodeBase64(message.data));
+      } catch {
+        this.failEncryption(callId, E2E_HANDSHAKE_FAILED);
+        return null;
+      }
+      this.log("info", "Call encrypted end to end", { callId, fingerprint: session.peerFingerprint });
+      this.calls.get(callId)?.setEncrypted(session.peerFingerprint!);
+      return null;
+    }
+
+    const session = this.e2eSessions.get(callId);
+    if (!session?.isEstablished) {
+      this.failEncryption(callId, E2E_HANDSHAKE_FAILED);
+      return null;
+    }
+    let bytes: Uint8Array;
+    try {
+      if (message.e2e !== "sealed") {
+        throw new Error("Unsealed payload");
       }
-      call.receiveMessage(this.useWebStreams ? bytes : toNodeBuffer(bytes));
+      bytes = await session.open(decodeBase64(message.data), e2eAssociatedData(callId, message.content_type ?? "text", message.stream));
+    } catch {
+      this.failEncryption(callId, E2E_AUTH_FAILED);
+      return null;
+    }
+    const keepBytes = message.content_type === "binary" || message.compression !== undefined;
+    return {
+      type: "MSG",
+      call_id: callId,
+      data: keepBytes ? bytes : textDecoder.decode(bytes),
+      content_type: message.content_type,
+      stream: message.stream,
+      compression: message.compression,
+    };
+  }
+
+  /** Restores a compressed payload; returns null after reporting a payload that cannot be restored. */
+  private async inflateMessage(message: InboundMsg, algorithm: string): Promise<InboundMsg | null> {
+    if (!isCompressionAlgorithm(algorithm)) {
+      this.reportMalformed(message);
+      return null;
+    }
+    const compressed = decodeBase64(message.data);
+    let bytes: Uint8Array | null;
+    try {
+      bytes = await this.payloadCompressor().decompress(algorithm, compressed, this.maxMessageBytes);
+    } catch (error) {
+      this.emit(
+        "error",
+        new ProtocolError(`Failed to decompress ${algorithm} payload: ${(error as Error).message}`, message, {
+          callId: message.call_id,
+        }),
+      );
+      return null;
+    }
+    if (bytes === null) {
+      this.emit("error", new MessageTooLargeError(message.call_id, this.maxMessageBytes));
+      return null;
+    }
+    this.recordCompression(message.call_id, "received", bytes.byteLength, compressed.byteLength);
+    return {
+      type: "MSG",
+      call_id: message.call_id,
+      data: message.content_type === "binary" ? bytes : textDecoder.decode(bytes),
+      content_type: message.content_type,
+      stream: message.stream,
+    };
+  }
+
+  /** Substream data goes to its stream only; it is not surfaced as a call message. */
+  private handleSubstreamMessage(message: Extract<SystemXInboundMessage, { type: "MSG" }>, name: string) {
+    let bytes: Uint8Array;
+    if (message.content_type === "binary") {
+      bytes = decodeBase64(message.data);
+    } else if (typeof message.data === "string") {
+      bytes = textEncoder.encode(message.data);
+    } else {
+      this.reportMalformed(message);
+      return;
+    }
+    this.recordTraffic(message.call_id, "received", message.content_type ?? "text", bytes.byteLength);
+    this.pushStreamChunk(this.getRemoteStream(message.call_id, name), bytes);
+  }
+
+  private pushStreamChunk(stream: CallStream | undefined, bytes: Uint8Array) {
+    if (stream instanceof BrowserTunnelStream) {
+      stream.pushChunk(bytes);
+    } else if (stream instanceof TunnelStream) {
+      stream.pushChunk(toNodeBuffer(bytes));
+    }
+  }
+
+  private deliverMessage(call: Call, data: unknown, contentType: MessageContext["contentType"]) {
+    if (this.middleware.length === 0) {
+      call.receiveMessage(data);
       return;
     }
+    this.enqueueMessage({ kind: "receive", call, data, contentType }, (ctx) => {
+      call.receiveMessage(ctx.data);
+    });
+  }
+
+  /** Runs the middleware for a message behind the call's earlier ones; resolves once it has been handled. */
+  private enqueueMessage(ctx: MessageContext, terminal: (ctx: MessageContext) => void): Promise<void> {
+    const chains = this.messageChains.get(ctx.call) ?? { send: Promise.resolve(), receive: Promise.resolve() };
+    chains[ctx.kind] = chains[ctx.kind]
+      .then(() => this.runMiddleware(ctx, terminal))
+      .catch((error) => this.reportError(error as Error, ctx.call));
+    this.messageChains.set(ctx.call, chains);
+    return chains[ctx.kind];
+  }
+
+  private runMiddleware<Context extends MiddlewareContext>(
+    ctx: Context,
+    terminal: (ctx: Context) => Promise<void> | void,
+  ): Promise<void> {
+    return composeMiddleware(this.middleware, terminal)(ctx);
+  }
+
+  private reportMalformed(message: SystemXInboundMessage) {
+    const callId = typeof (message as { call_id?: unknown }).call_id === "string"
+      ? (message as { call_id: string }).call_id
+      : undefined;
+    this.log("warn", "Malformed frame", { type: message.type, callId });
+    // Ignoring malformed frames is the safe default; only clients that listen for errors hear about them.
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", new ProtocolError(`Malformed ${message.type} message`, message, { callId }));
+    }
+  }
 
-    call.receiveMessage(data);
+  private reportError(error: Error, call?: Call) {
+    if (call && call.listenerCount("error") > 0) {
+      call.emit("error", error);
+      return;
+    }
+    this.emit("error", error);
   }
 
   private handleHangup(message: Extract<SystemXInboundMessage, { type: "HANGUP" }>) {
@@ -562,84 +1821,735 @@ export class Trimphone extends EventEmitter {
     if (!call) {
       return;
     }
-    call.receiveHangup(message.reason);
-    this.calls.delete(message.call_id);
-    this.closeStream(message.call_id);
+    this.log("info", "Call ended", { callId: call.id, reason: message.reason });
+    if (this.isDialling(call)) {
+      const index = this.pendingDials.findIndex((dial) => dial.call === call);
+      const pending = index === -1 ? undefined : this.pendingDials.splice(index, 1)[0];
+      pending?.cleanup();
+      if (pending && !pending.abandoned) {
+        const detail = message.reason ? `: ${message.reason}` : "";
+        pending.deferred.reject(
+          new TrimphoneError(`Call to ${pending.to} ended before connecting${detail}`, { address: pending.to, callId: call.id }),
+        );
+      }
+    }
+    this.endCall(message.call_id, message.reason, this.localHangups.has(message.call_id) ? "local" : "remote");
   }
 
-  private dequeuePendingDial(to?: string): PendingDial | undefined {
-    if (!to) {
-      return this.pendingDials.shift();
-    }
-    const index = this.pendingDials.findIndex((dial) => dial.to === to);
-    if (index === -1) {
-      return this.pendingDials.shift();
+  private handleUnregistered(message: Extract<SystemXInboundMessage, { type: "UNREGISTERED" }>) {
+    const address = typeof message.address === "string" ? message.address : this.unregisteringAddress;
+    this.registered = false;
+    this.sessionId = null;
+    this.unregisteringAddress = null;
+    this.unregisterDeferred?.resolve();
+    this.unregisterDeferred = null;
+    if (address) {
+      this.emit("unregistered", address);
     }
-    return this.pendingDials.splice(index, 1)[0];
   }
 
-  private createCallController(): CallController {
-    const sendMessage = (callId: string, payload: MessagePayload) => {
-      const contentType = payload.contentType ?? "text";
-      let data: unknown = payload.data;
-
-      if (contentType === "json" && typeof payload.data !== "string") {
-        data = JSON.stringify(payload.data);
-      } else if (contentType === "binary") {
-        if (payload.data instanceof ArrayBuffer) {
-          data = encodeBase64(new Uint8Array(payload.data));
-        } else if (payload.data instanceof Uint8Array) {
-          data = encodeBase64(payload.data);
-        } else if (typeof Buffer !== "undefined" && Buffer.isBuffer(payload.data)) {
-          data = payload.data.toString("base64");
-        } else {
-          throw new Error("Binary payload must be Buffer, Uint8Array, or ArrayBuffer");
+  private handlePresence(message: Extract<SystemXInboundMessage, { type: "PRESENCE" }>) {
+    const update = {
+      address: message.address,
+      status: message.status,
+      message: message.message,
+    };
+    for (const listener of this.presenceListeners.get(message.address) ?? []) {
+      // One failing listener must not keep the update from the others.
+      try {
+        listener(update);
+      } catch (error) {
+        this.log("error", "Presence listener failed", { address: message.address, error: (error as Error).message });
+        if (this.listenerCount("error") > 0) {
+          this.emit("error", error);
         }
       }
+    }
+    this.emit("presence", update);
+  }
 
-      this.send({
-        type: "MSG",
-        call_id: callId,
-        data,
-        content_type: contentType,
-      });
+  private suspendCalls() {
+    if (this.suspendedCalls.size === 0) {
+      this.resumeSessionId = this.sessionId;
+    }
+
+    for (const [callId, call] of Array.from(this.calls)) {
+      if (call.isActive) {
+        this.suspendedCalls.add(callId);
+        call.suspend();
+      } else if (!this.suspendedCalls.has(callId)) {
+        // Calls that never connected cannot be reattached.
+        this.endCall(callId, "disconnected");
+      }
+    }
+
+    if (!this.resumeTimer && this.suspendedCalls.size > 0) {
+      this.resumeTimer = setTimeout(() => {
+        this.resumeTimer = null;
+        this.endSuspendedCalls("resume_timeout");
+      }, this.resumeGracePeriodMs);
+    }
+  }
+
+  private requestResume() {
+    if (this.suspendedCalls.size === 0) {
+      return;
+    }
+    if (!this.resumeSessionId || !this.supports("resume")) {
+      this.endSuspendedCalls("resume_failed");
+      return;
+    }
+    this.send({
+      type: "RESUME",
+      session_id: this.resumeSessionId,
+      call_ids: Array.from(this.suspendedCalls),
+    });
+  }
+
+  private handleResumed(message: Extract<SystemXInboundMessage, { type: "RESUMED" }>) {
+    for (const callId of message.call_ids) {
+      if (!this.suspendedCalls.delete(callId)) {
+        continue;
+      }
+      this.calls.get(callId)?.resume();
+      this.retransmitUnacked(callId);
+      this.releaseHeldCredits(callId);
+    }
+
+    for (const callId of message.failed ?? []) {
+      if (this.suspendedCalls.delete(callId)) {
+        this.endCall(callId, "resume_failed");
+      }
+    }
+
+    if (this.suspendedCalls.size === 0) {
+      this.clearResumeTimer();
+      this.resumeSessionId = null;
+      this.flushOutboundBuffer();
+    }
+  }
+
+  private endSuspendedCalls(reason: string) {
+    for (const callId of Array.from(this.suspendedCalls)) {
+      this.endCall(callId, reason);
+    }
+    this.suspendedCalls.clear();
+    this.clearResumeTimer();
+    this.resumeSessionId = null;
+    if (this.connectionState === "connected") {
+      this.flushOutboundBuffer();
+    }
+  }
+
+  /** Ends a call locally without notifying the exchange. */
+  private endCall(callId: string, reason: string | undefined, initiator: HangupInitiator = "system") {
+    const call = this.calls.get(callId);
+    this.calls.delete(callId);
+    this.peerFeatures.delete(callId);
+    this.suspendedCalls.delete(callId);
+    this.localHangups.delete(callId);
+    this.clearRingTimer(callId);
+    this.closeStreams(callId);
+    this.pendingCredits.delete(callId);
+    this.heldCredits.delete(callId);
+    this.closedStreams.delete(callId);
+    this.reassembly.delete(callId);
+    this.e2eSessions.get(callId)?.close();
+    this.e2eSessions.delete(callId);
+    this.reliableChannels.get(callId)?.fail(new UndeliveredMessageError(callId, reason));
+    this.reliableChannels.delete(callId);
+    const ackTimer = this.ackTimers.get(callId);
+    if (ackTimer) {
+      clearTimeout(ackTimer);
+      this.ackTimers.delete(callId);
+    }
+    const retransmitTimer = this.retransmitTimers.get(callId);
+    if (retransmitTimer) {
+      clearTimeout(retransmitTimer);
+      this.retransmitTimers.delete(callId);
+    }
+    if (call && call.state !== "ended") {
+      call.receiveHangup(reason);
+      this.recordCallDetail(call, reason, initiator);
+    }
+  }
+
+  private recordCallDetail(call: Call, reason: string | undefined, initiator: HangupInitiator) {
+    const { createdAt, answeredAt, endedAt } = call.timestamps;
+    const stats = call.getStats();
+    const sum = (direction: "sent" | "received") =>
+      Object.values(stats[direction]).reduce((total, counter) => total + counter.bytes, 0);
+    const record: CallDetailRecord = {
+      id: call.id,
+      direction: call.direction,
+      from: call.from,
+      to: call.to,
+      metadata: call.metadata,
+      startedAt: createdAt,
+      answeredAt,
+      endedAt: endedAt ?? Date.now(),
+      durationMs: call.duration,
+      hangupReason: reason,
+      initiator,
+      bytesIn: sum("received"),
+      bytesOut: sum("sent"),
+    };
+
+    this.emit("callRecord", record);
+    Promise.resolve()
+      .then(() => this.history.append(record))
+      .catch((error) => this.reportError(error as Error));
+  }
+
+  private clearResumeTimer() {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+  }
+
+  private rememberAbandonedDial(dialId: string) {
+    const now = Date.now();
+    for (const [id, expiresAt] of this.abandonedDials) {
+      if (expiresAt <= now || this.abandonedDials.size >= MAX_ABANDONED_DIALS) {
+        this.abandonedDials.delete(id);
+      }
+    }
+    this.abandonedDials.set(dialId, now + ABANDONED_DIAL_TTL_MS);
+  }
+
+  /** True if `dialId` belongs to a recently abandoned dial; the ID is forgotten either way. */
+  private forgetAbandonedDial(dialId: string): boolean {
+    const expiresAt = this.abandonedDials.get(dialId);
+    this.abandonedDials.delete(dialId);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  private dequeuePendingDial(to?: string, dialId?: string, callId?: string): PendingDial | undefined {
+    const index = this.pendingDialIndex(to, dialId, callId);
+    return index === -1 ? undefined : this.pendingDials.splice(index, 1)[0];
+  }
+
+  private findPendingDial(to?: string, dialId?: string, callId?: string): PendingDial | undefined {
+    const index = this.pendingDialIndex(to, dialId, callId);
+    return index === -1 ? undefined : this.pendingDials[index];
+  }
+
+  private pendingDialIndex(to?: string, dialId?: string, callId?: string): number {
+    if (callId !== undefined) {
+      // Dials that already reported progress are bound to their call ID.
+      const byCall = this.pendingDials.findIndex((dial) => dial.call?.id === callId);
+      if (byCall !== -1) {
+        return byCall;
+      }
+    }
+    if (typeof dialId === "string") {
+      // Exchanges that echo the correlation ID get an exact match; an unknown ID
+      // belongs to a dial from an earlier connection and must not steal another.
+      return this.pendingDials.findIndex((dial) => dial.id === dialId);
+    }
+    // Fallback for exchanges that do not echo dial_id: match by address, then FIFO,
+    // skipping dials already bound to a different call.
+    const eligible = (dial: PendingDial) => callId === undefined || dial.call === null || dial.call.id === callId;
+    const byAddress = to ? this.pendingDials.findIndex((dial) => eligible(dial) && dial.to === to) : -1;
+    return byAddress !== -1 ? byAddress : this.pendingDials.findIndex(eligible);
+  }
+
+  private createCallController(): CallController {
+    const sendMessage = (callId: string, payload: MessagePayload): Promise<void> => {
+      const call = this.calls.get(callId);
+      if (call?.isSuspended && !this.outboundBuffer && !this.reliableChannels.has(callId)) {
+        // Nothing would hold the message until the call is resumed; fail now rather than in a queued send.
+        return Promise.reject(
+          new DisconnectedError("Cannot send message while disconnected: the call is suspended and no outboundBuffer is configured", {
+            callId,
+          }),
+        );
+      }
+      if (!call || this.middleware.length === 0) {
+        return this.transmitMessage(callId, payload);
+      }
+      let delivered: Promise<void> = Promise.resolve();
+      const handled = this.enqueueMessage(
+        { kind: "send", call, data: payload.data, contentType: payload.contentType ?? "text" },
+        (ctx) => {
+          delivered = this.transmitMessage(callId, { data: ctx.data, contentType: ctx.contentType });
+        },
+      );
+      return handled.then(() => delivered);
     };
 
     if (this.useWebStreams) {
       return {
         answer: (callId: string) => {
-          this.send({ type: "ANSWER", call_id: callId });
+          this.answerCall(callId);
         },
         hangup: (callId: string, reason?: string) => {
-          this.closeStream(callId);
-          this.send({ type: "HANGUP", call_id: callId, reason });
+          this.hangupCall(callId, reason);
+        },
+        reject: (callId: string, reason: BusyReason) => {
+          this.rejectCall(callId, reason);
+        },
+        forward: (callId: string, to: string) => {
+          this.forwardCall(callId, to);
         },
         send: (callId: string, payload: MessagePayload) => {
-          sendMessage(callId, payload);
+          return sendMessage(callId, payload);
         },
-        getWebStream: (callId: string) => {
-          return this.getOrCreateBrowserStream(callId).createView();
+        getWebStream: (callId: string, name: string, options?: StreamOptions) => {
+          return (this.openLocalStream(callId, name, options) as BrowserTunnelStream).createView();
         },
       };
     }
 
     return {
       answer: (callId: string) => {
-        this.send({ type: "ANSWER", call_id: callId });
+        this.answerCall(callId);
       },
       hangup: (callId: string, reason?: string) => {
-        this.closeStream(callId);
-        this.send({ type: "HANGUP", call_id: callId, reason });
+        this.hangupCall(callId, reason);
+      },
+      reject: (callId: string, reason: BusyReason) => {
+        this.rejectCall(callId, reason);
+      },
+      forward: (callId: string, to: string) => {
+        this.forwardCall(callId, to);
       },
       send: (callId: string, payload: MessagePayload) => {
-        sendMessage(callId, payload);
+        return sendMessage(callId, payload);
       },
-      getStream: (callId: string) => {
-        return this.getOrCreateNodeStream(callId);
+      getStream: (callId: string, name: string, options?: StreamOptions) => {
+        return this.openLocalStream(callId, name, options) as TunnelStream;
       },
     };
   }
 
+  private transmitMessage(callId: string, payload: MessagePayload): Promise<void> {
+    const contentType = payload.contentType ?? "text";
+    let data: unknown = payload.data;
+
+    if (contentType === "json" && typeof payload.data !== "string") {
+      data = JSON.stringify(payload.data);
+    } else if (contentType === "binary") {
+      // Bytes stay raw in the frame: binary codecs send them as-is, the JSON codec as base64.
+      if (payload.data instanceof ArrayBuffer) {
+        data = new Uint8Array(payload.data);
+      } else if (payload.data instanceof Uint8Array) {
+        data = payload.data;
+      } else {
+        throw new Error("Binary payload must be Buffer, Uint8Array, or ArrayBuffer");
+      }
+    }
+
+    let queued: Promise<void> | null;
+    try {
+      queued = this.sendCallMessage({ type: "MSG", call_id: callId, data, content_type: contentType });
+    } catch (error) {
+      // A frame that could not go out right away fails the send the same way a queued one does.
+      return Promise.reject(error);
+    }
+    this.recordTraffic(callId, "sent", contentType, payloadSize(data));
+    return this.whenDelivered(callId, queued);
+  }
+
+  /**
+   * Resolves once the message just handed to `sendCallMessage` has left the call's
+   * send queue and, on reliable calls, has been acknowledged by the peer. Rejects
+   * when its queued send failed.
+   */
+  private whenDelivered(callId: string, queued: Promise<void> | null): Promise<void> {
+    const channel = this.reliableChannels.get(callId);
+    if (!channel) {
+      return queued ?? Promise.resolve();
+    }
+    if (!queued) {
+      return channel.whenAcked(channel.lastSeq);
+    }
+    // Its last frame is the latest one stamped once the queue has worked through to it.
+    return queued.then(() =>
+      this.calls.has(callId) ? channel.whenAcked(channel.lastSeq) : Promise.reject(new UndeliveredMessageError(callId)),
+    );
+  }
+
+  /** Starts sequencing the call's frames unless it already does. */
+  private startReliableDelivery(callId: string): ReliableChannel<MsgFrame> {
+    let channel = this.reliableChannels.get(callId);
+    if (!channel) {
+      channel = new ReliableChannel<MsgFrame>();
+      this.reliableChannels.set(callId, channel);
+      this.calls.get(callId)?.setReliable();
+    }
+    return channel;
+  }
+
+  /** Acknowledges received frames shortly, covering everything that arrives in the meantime with one ACK. */
+  private scheduleAck(callId: string) {
+    if (this.ackTimers.has(callId)) {
+      return;
+    }
+    this.ackTimers.set(
+      callId,
+      setTimeout(() => {
+        this.ackTimers.delete(callId);
+        const channel = this.reliableChannels.get(callId);
+        if (channel && this.connectionState === "connected") {
+          this.send({ type: "ACK", call_id: callId, seq: channel.receivedSeq });
+        }
+      }, ACK_DELAY_MS),
+    );
+  }
+
+  /** Applies an ACK; progress restarts the wait before unacknowledged frames are written again. */
+  private handleAck(callId: string, seq: number) {
+    const channel = this.reliableChannels.get(callId);
+    if (!channel?.acknowledge(seq)) {
+      return;
+    }
+    const timer = this.retransmitTimers.get(callId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retransmitTimers.delete(callId);
+    }
+    if (channel.unackedCount > 0) {
+      this.scheduleRetransmit(callId);
+    }
+  }
+
+  /**
+   * Writes unacknowledged frames again if no ACK makes progress in time. The peer drops
+   * frames that skip ahead, so without this one lost frame would stall a live call.
+   */
+  private scheduleRetransmit(callId: string) {
+    if (this.retransmitTimers.has(callId)) {
+      return;
+    }
+    this.retransmitTimers.set(
+      callId,
+      setTimeout(() => {
+        this.retransmitTimers.delete(callId);
+        // A suspended call retransmits once it is resumed.
+        if (this.connectionState === "connected") {
+          this.retransmitUnacked(callId);
+        }
+      }, this.retransmitTimeoutMs),
+    );
+  }
+
+  /** Writes the frames the peer may have missed, after a resume or an ACK timeout; it drops those it already has. */
+  private retransmitUnacked(callId: string) {
+    const channel = this.reliableChannels.get(callId);
+    if (!channel) {
+      return;
+    }
+    const frames = channel.unackedFrames();
+    if (frames.length > 0) {
+      this.log("info", "Retransmitting unacknowledged frames", { callId, frames: frames.length });
+    }
+    for (const frame of frames) {
+      this.writeFrame(frame);
+    }
+    if (frames.length > 0) {
+      this.scheduleRetransmit(callId);
+    }
+    if (channel.receivedSeq > 0) {
+      // Our earlier ACKs may have been lost with the connection.
+      this.scheduleAck(callId);
+    }
+  }
+
+  /**
+   * Sends an MSG, compressing or fragmenting its payload where that applies, behind the call's earlier sends.
+   * Returns the queued send, which the caller must handle, or null when the frame went out right away.
+   */
+  private sendCallMessage(message: MsgFrame): Promise<void> | null {
+    const callId = message.call_id;
+    const session = this.e2eSessions.get(callId);
+    if (session) {
+      const bytes = payloadBytes(message.data);
+      return this.queueSend(callId, () => this.sendSealed(message, session, bytes));
+    }
+    const compressible = this.compressiblePayload(callId, message.data);
+    if (compressible) {
+      return this.queueSend(callId, () => this.sendCompressed(message, compressible.algorithm, compressible.bytes));
+    }
+    const oversized = this.oversizedPayload(callId, message.data);
+    if (oversized) {
+      return this.queueSend(callId, () => this.sendFragments(message, oversized));
+    }
+    if (this.sendQueues.has(callId)) {
+      return this.queueSend(callId, () => this.send(message));
+    }
+    this.send(message);
+    return null;
+  }
+
+  /** Sends a frame now, or after the call's queued sends when there are any. */
+  private sendInOrder(callId: string, message: SystemXOutboundMessage) {
+    if (this.sendQueues.has(callId)) {
+      this.queueSend(callId, () => this.send(message)).catch((error) => {
+        this.emit("error", error as Error);
+      });
+    } else {
+      this.send(message);
+    }
+  }
+
+  /** Bytes of a payload worth compressing for the call, or null when it is uncompressed or below the threshold. */
+  private compressiblePayload(callId: string, data: unknown): { algorithm: CompressionAlgorithm; bytes: Uint8Array } | null {
+    const algorithm = this.calls.get(callId)?.compression;
+    if (!algorithm) {
+      return null;
+    }
+    if (data instanceof Uint8Array) {
+      // Copied so the caller may reuse its buffer while compression runs.
+      return data.byteLength >= this.compressionThresholdBytes ? { algorithm, bytes: data.slice() } : null;
+    }
+    if (typeof data === "string" && data.length * 3 >= this.compressionThresholdBytes) {
+      const bytes = textEncoder.encode(data);
+      return bytes.byteLength >= this.compressionThresholdBytes ? { algorithm, bytes } : null;
+    }
+    return null;
+  }
+
+  private async sendCompressed(message: MsgFrame, algorithm: CompressionAlgorithm, bytes: Uint8Array) {
+    const compressed = await this.compressPayload(message.call_id, algorithm, bytes);
+    if (!compressed) {
+      await this.sendWhole(message.content_type === "binary" ? { ...message, data: bytes } : message);
+      return;
+    }
+    await this.sendWhole({ ...message, data: compressed, compression: algorithm });
+  }
+
+  /** Compressed form of a payload, or null when compressing does not make it smaller. */
+  private async compressPayload(callId: string, algorithm: CompressionAlgorithm, bytes: Uint8Array): Promise<Uint8Array | null> {
+    const compressed = await this.payloadCompressor().compress(algorithm, bytes);
+    if (compressed.byteLength >= bytes.byteLength) {
+      return null;
+    }
+    this.recordCompression(callId, "sent", bytes.byteLength, compressed.byteLength);
+    return compressed;
+  }
+
+  /** Compresses (when agreed) and then seals a payload of an encrypted call. */
+  private async sendSealed(message: MsgFrame, session: E2eSession, bytes: Uint8Array) {
+    const callId = message.call_id;
+    const algorithm = this.calls.get(callId)?.compression;
+    const compressed =
+      algorithm && bytes.byteLength >= this.compressionThresholdBytes ? await this.compressPayload(callId, algorithm, bytes) : null;
+    const sealed = await session.seal(
+      compressed ?? bytes,
+      e2eAssociatedData(callId, message.content_type ?? "text", message.stream),
+    );
+    const frame: MsgFrame = { ...message, data: sealed, e2e: "sealed" };
+    if (compressed && algorithm) {
+      frame.compression = algorithm;
+    }
+    await this.sendWhole(frame);
+  }
+
+  /**
+   * Begins the key exchange for a call unless it is already under way. Sends on
+   * the call are held back until the peer's key has arrived.
+   */
+  private startEncryption(callId: string): E2eSession {
+    const existing = this.e2eSessions.get(callId);
+    if (existing) {
+      return existing;
+    }
+    const session = new E2eSession(callId);
+    this.e2eSessions.set(callId, session);
+
+    const timer = setTimeout(() => {
+      if (this.e2eSessions.get(callId) === session && !session.isEstablished) {
+        this.failEncryption(callId, E2E_HANDSHAKE_FAILED);
+      }
+    }, this.encryptionTimeoutMs);
+    void session.established.then(() => clearTimeout(timer));
+
+    this.queueSend(callId, async () => {
+      this.send({ type: "MSG", call_id: callId, data: await session.publicKey(), content_type: "binary", e2e: "key" });
+      await session.established;
+    }).catch((error) => {
+      this.emit("error", error as Error);
+    });
+    return session;
+  }
+
+  /** Hangs up an encrypted call right away; queued sends are dropped rather than sent unprotected. */
+  private failEncryption(callId: string, reason: string) {
+    if (!this.calls.has(callId)) {
+      return;
+    }
+    this.log("warn", "End-to-end encryption failed", { callId, reason });
+    if (this.connectionState === "connected") {
+      this.send({ type: "HANGUP", call_id: callId, reason });
+    }
+    this.endCall(callId, reason, "local");
+  }
+
+  private async sendWhole(message: MsgFrame) {
+    const oversized = this.oversizedPayload(message.call_id, message.data);
+    if (oversized) {
+      await this.sendFragments(message, oversized);
+    } else {
+      this.send(message);
+    }
+  }
+
+  /** Bytes of a payload too large for one frame, or null when it fits or the peer cannot reassemble. */
+  private oversizedPayload(callId: string, data: unknown): Uint8Array | null {
+    if (this.maxFrameBytes <= 0 || !this.peerSupports(callId, "fragments")) {
+      return null;
+    }
+    if (data instanceof Uint8Array) {
+      // Copied so the caller may reuse its buffer while fragments are still going out.
+      return data.byteLength > this.maxFrameBytes ? data.slice() : null;
+    }
+    if (typeof data === "string" && data.length * 3 > this.maxFrameBytes) {
+      const bytes = textEncoder.encode(data);
+      return bytes.byteLength > this.maxFrameBytes ? bytes : null;
+    }
+    return null;
+  }
+
+  /** Runs a send after everything already queued for the call; dropped once the call has ended. */
+  private queueSend(callId: string, task: () => Promise<void> | void): Promise<void> {
+    return this.queueCallTask(this.sendQueues, callId, task);
+  }
+
+  /** Returns the task's own outcome; a failure does not hold up the tasks queued after it. */
+  private queueCallTask(queues: Map<string, Promise<void>>, callId: string, task: () => Promise<void> | void): Promise<void> {
+    const run = (queues.get(callId) ?? Promise.resolve()).then(() => (this.calls.has(callId) ? task() : undefined));
+    const queued = run.catch(() => undefined);
+    queues.set(callId, queued);
+    void queued.then(() => {
+      if (queues.get(callId) === queued) {
+        queues.delete(callId);
+      }
+    });
+    return run;
+  }
+
+  private async sendFragments(message: MsgFrame, bytes: Uint8Array) {
+    const callId = message.call_id;
+    const messageId = createId("msg");
+    const fragments = splitPayload(bytes, this.maxFrameBytes);
+    let sentBytes = 0;
+    for (const [index, fragment] of fragments.entries()) {
+      if (index > 0) {
+        // Yield between fragments so heartbeats and other calls are not starved.
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (!this.calls.has(callId)) {
+          return;
+        }
+      }
+      this.send({
+        ...message,
+        data: fragment,
+        fragment_id: messageId,
+        fragment_index: index,
+        fragment_count: fragments.length,
+      });
+      sentBytes += fragment.byteLength;
+      this.calls.get(callId)?.reportSendProgress({ messageId, sentBytes, totalBytes: bytes.byteLength });
+    }
+  }
+
+  private payloadCompressor(): PayloadCompressor {
+    return this.useWebStreams ? browserCompressor : nodeCompressor;
+  }
+
+  private recordCompression(callId: string, direction: TrafficDirection, bytes: number, compressedBytes: number) {
+    this.compressionCounter.record(direction, bytes, compressedBytes);
+    this.calls.get(callId)?.recordCompression(direction, bytes, compressedBytes);
+  }
+
+  private answerCall(callId: string) {
+    this.clearRingTimer(callId);
+    const call = this.calls.get(callId);
+    const metadata: Record<string, unknown> = {};
+    if (call?.compression) {
+      metadata[COMPRESSION_METADATA_KEY] = call.compression;
+    }
+    const encrypt = this.encryption || call?.metadata?.[E2E_METADATA_KEY] === E2E_SCHEME;
+    if (encrypt) {
+      metadata[E2E_METADATA_KEY] = E2E_SCHEME;
+    }
+    const reliable = this.supports("acks") && (this.reliable || call?.metadata?.[RELIABLE_METADATA_KEY] === true);
+    if (reliable) {
+      metadata[RELIABLE_METADATA_KEY] = true;
+    }
+    const peerFeatures = this.peerFeatures.get(callId) ?? [];
+    if (peerFeatures.length > 0) {
+      metadata[PEER_FEATURES_METADATA_KEY] = peerFeatures;
+    }
+    this.send(
+      Object.keys(metadata).length > 0 ? { type: "ANSWER", call_id: callId, metadata } : { type: "ANSWER", call_id: callId },
+    );
+    if (reliable) {
+      this.startReliableDelivery(callId);
+    }
+    if (encrypt) {
+      this.startEncryption(callId);
+    }
+  }
+
+  private rejectCall(callId: string, reason: BusyReason, initiator: HangupInitiator = "local") {
+    this.log("info", "Rejecting call", { callId, reason });
+    this.sendRefusal(callId, reason);
+    this.endCall(callId, reason, initiator);
+  }
+
+  /**
+   * Turns down a ringing call. Exchanges without the `reject` feature would drop a
+   * REJECT and leave the caller ringing, so the call is answered and hung up instead.
+   */
+  private sendRefusal(callId: string, reason: BusyReason) {
+    if (this.supports("reject")) {
+      this.send({ type: "REJECT", call_id: callId, reason });
+      return;
+    }
+    this.send({ type: "ANSWER", call_id: callId });
+    this.send({ type: "HANGUP", call_id: callId, reason });
+  }
+
+  private forwardCall(callId: string, to: string) {
+    if (!isValidAddress(to)) {
+      throw new Error("Invalid SystemX address");
+    }
+    this.log("info", "Forwarding call", { callId, to });
+    this.send({ type: "FORWARD", call_id: callId, to });
+    this.endCall(callId, "forwarded", "local");
+  }
+
+  private hangupCall(callId: string, reason?: string) {
+    // A ringing call we hang up must not be rejected again as unanswered.
+    this.clearRingTimer(callId);
+    if (this.suspendedCalls.has(callId) && this.connectionState !== "connected") {
+      // Nothing to tell the exchange yet; it drops the call when it is not resumed.
+      this.endCall(callId, reason ?? "normal", "local");
+      return;
+    }
+    this.localHangups.add(callId);
+    this.closeStreams(callId);
+    this.sendInOrder(callId, { type: "HANGUP", call_id: callId, reason });
+  }
+
+  private assertSupported(feature: TrimphoneFeature) {
+    if (!this.supports(feature)) {
+      throw new TrimphoneError(`The exchange does not support ${feature}`, {
+        address: this.registeredAddress ?? undefined,
+      });
+    }
+  }
+
+  private sendStatusMessage(): void {
+    if (!this.presence) {
+      return;
+    }
+    this.send({ type: "STATUS", status: this.presence.status, message: this.presence.message });
+  }
+
   private sendRegisterMessage(): void {
     if (!this.registeredAddress) {
       return;
@@ -653,9 +2563,22 @@ export class Trimphone extends EventEmitter {
       max_listeners: options.maxListeners,
       max_sessions: options.maxSessions,
       pool_size: options.poolSize,
+      session_id: this.suspendedCalls.size > 0 ? this.resumeSessionId ?? undefined : undefined,
+      protocol_version: PROTOCOL_VERSION,
+      features: this.offeredFeatures(),
+      codecs: this.offeredCodecs(),
     });
   }
 
+  private offeredFeatures(): TrimphoneFeature[] {
+    return this.binaryFrames ? [...CLIENT_FEATURES, "binary_frames"] : [...CLIENT_FEATURES];
+  }
+
+  private offeredCodecs(): string[] | undefined {
+    const preferred = this.preferredCodec.name;
+    return preferred === jsonCodec.name ? undefined : [preferred, jsonCodec.name];
+  }
+
   private scheduleReconnect() {
     if (this.reconnectTimer) {
       return;
@@ -686,18 +2609,23 @@ export class Trimphone extends EventEmitter {
       return;
     }
 
-    this.send({ type: "HEARTBEAT" });
+    this.sendHeartbeat();
     this.scheduleHeartbeatTimeout();
 
     this.heartbeatTimer = setInterval(() => {
       if (this.connectionState !== "connected") {
         return;
       }
-      this.send({ type: "HEARTBEAT" });
+      this.sendHeartbeat();
       this.scheduleHeartbeatTimeout();
     }, this.heartbeatIntervalMs);
   }
 
+  private sendHeartbeat() {
+    this.lastHeartbeatSentAt = Date.now();
+    this.send({ type: "HEARTBEAT" });
+  }
+
   private scheduleHeartbeatTimeout() {
     if (this.heartbeatTimeoutMs <= 0) {
       return;
@@ -707,11 +2635,14 @@ export class Trimphone extends EventEmitter {
     }
     this.heartbeatTimeoutTimer = setTimeout(() => {
       const sinceAck = Date.now() - this.lastHeartbeatAck;
+      this.heartbeatTimeoutTimer = null;
       if (sinceAck >= this.heartbeatTimeoutMs && this.transport) {
+        if (this.transportUrl) {
+          this.endpoints.markFailure(this.transportUrl);
+        }
         this.transport.close(4000, "heartbeat_timeout");
       }
-      this.heartbeatTimeoutTimer = null;
-      }, this.heartbeatTimeoutMs);
+    }, this.heartbeatTimeoutMs);
   }
 
   private clearHeartbeatTimers() {
@@ -725,6 +2656,30 @@ export class Trimphone extends EventEmitter {
     }
   }
 
+  private startStatsTimer() {
+    if (this.statsIntervalMs <= 0 || this.statsTimer) {
+      return;
+    }
+    this.statsTimer = setInterval(() => {
+      this.emit("stats", this.getStats());
+      for (const call of this.calls.values()) {
+        call.reportStats();
+      }
+    }, this.statsIntervalMs);
+  }
+
+  private stopStatsTimer() {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+  }
+
+  private recordTraffic(callId: string, direction: TrafficDirection, contentType: ContentType, bytes: number) {
+    this.traffic.record(direction, contentType, bytes);
+    this.calls.get(callId)?.recordTraffic(direction, contentType, bytes);
+  }
+
   private clearReconnectTimer() {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
@@ -733,73 +2688,306 @@ export class Trimphone extends EventEmitter {
   }
 
   private send(message: SystemXOutboundMessage) {
-    if (!this.transport || this.connectionState !== "connected") {
-      throw new Error("Cannot send message while disconnected");
+    const connected = this.transport !== null && this.connectionState === "connected";
+
+    const channel = message.type === "MSG" && message.seq === undefined ? this.reliableChannels.get(message.call_id) : undefined;
+    if (channel) {
+      const frame = message as MsgFrame;
+      const size = payloadSize(frame.data);
+      if (!channel.hasRoomFor(size)) {
+        throw new UndeliveredMessageError(
+          frame.call_id,
+          "unacked_limit",
+          "Too many unacknowledged messages on this call; wait for earlier sends to be delivered",
+        );
+      }
+      message = channel.stamp(frame, size);
+      this.scheduleRetransmit(frame.call_id);
+      if (!connected && !this.outboundBuffer) {
+        // Kept for retransmission once the call has been resumed.
+        return;
+      }
+    }
+
+    if (this.outboundBuffer && !CONNECTION_FRAMES.has(message.type)) {
+      // Keep ordering: while anything is still queued or calls await reattachment,
+      // new frames join the queue.
+      const reconnecting =
+        this.connectionState === "connecting" ||
+        (this.autoReconnect && this.shouldAttemptReconnect && !this.manualCloseRequested);
+      const holding = this.outboundBuffer.size > 0 || this.suspendedCalls.size > 0;
+      if (connected ? holding : reconnecting) {
+        this.outboundBuffer.push(message);
+        return;
+      }
+    }
+
+    if (!connected) {
+      const callId = "call_id" in message ? message.call_id : undefined;
+      throw new DisconnectedError("Cannot send message while disconnected", { callId });
     }
-    this.transport.send(JSON.stringify(message));
+    this.writeFrame(message);
   }
 
-  private getOrCreateNodeStream(callId: string): TunnelStream {
-    const existing = this.streams.get(callId);
-    if (existing instanceof TunnelStream) {
-      return existing;
+  private writeFrame(message: SystemXOutboundMessage) {
+    const encoded =
+      message.type === "MSG" &&
+      message.content_type === "binary" &&
+      message.fragment_id === undefined &&
+      message.compression === undefined &&
+      message.e2e === undefined &&
+      message.seq === undefined &&
+      message.data instanceof Uint8Array &&
+      this.canSendBinaryFrames()
+        ? encodeBinaryFrame({ callId: message.call_id, stream: message.stream, flags: 0, data: message.data })
+        : this.activeCodec.encode(message);
+    this.transport!.send(encoded);
+    this.recordFrame("outbound", message, encoded);
+  }
+
+  /** Data frames are only sent once the current connection has agreed to them. */
+  private canSendBinaryFrames(): boolean {
+    return this.registered && this.negotiated !== null && this.negotiated.features.includes("binary_frames");
+  }
+
+  /** Counts a frame that crossed the socket, for the client and its call, then traces it. */
+  private recordFrame(
+    direction: FrameDirection,
+    frame: SystemXInboundMessage | SystemXOutboundMessage,
+    encoded: string | Uint8Array,
+  ) {
+    const callId = typeof (frame as { call_id?: unknown }).call_id === "string"
+      ? (frame as { call_id: string }).call_id
+      : undefined;
+    const bytes = typeof encoded === "string" ? utf8ByteLength(encoded) : encoded.byteLength;
+    const trafficDirection: TrafficDirection = direction === "inbound" ? "received" : "sent";
+    this.wire.record(trafficDirection, bytes);
+    if (callId !== undefined) {
+      this.calls.get(callId)?.recordWireFrame(trafficDirection, bytes);
     }
+    this.traceFrame(direction, frame, callId, bytes);
+  }
 
-    const stream = new TunnelStream((chunk) => {
-      this.send({
-        type: "MSG",
-        call_id: callId,
-        data: chunk.toString("base64"),
-        content_type: "binary",
-      });
-    });
+  private traceFrame(
+    direction: FrameDirection,
+    frame: SystemXInboundMessage | SystemXOutboundMessage,
+    callId: string | undefined,
+    bytes: number,
+  ) {
+    if (!this.frameTraceHook && !this.debugEnabled) {
+      return;
+    }
 
-    stream.on("error", (error) => {
-      this.emit("error", error);
-    });
+    const traced = this.traceBinaryPayloads ? frame : redactFrame(frame);
 
-    const cleanup = () => {
-      stream.off("close", cleanup);
-      stream.off("end", cleanup);
-      this.streams.delete(callId);
-    };
+    if (this.debugEnabled) {
+      this.log("debug", `${direction === "inbound" ? "<-" : "->"} ${frame.type}`, { callId, bytes, frame: traced });
+    }
+
+    if (this.frameTraceHook) {
+      try {
+        this.frameTraceHook({ direction, frame: traced, callId, bytes });
+      } catch (error) {
+        this.log("warn", "Frame trace hook threw", { error: (error as Error).message });
+      }
+    }
+  }
 
-    stream.on("close", cleanup);
-    stream.on("end", cleanup);
+  private log(level: LogLevel, message: string, context: LogContext = {}) {
+    const base: LogContext = this.registeredAddress ? { address: this.registeredAddress } : {};
+    this.logger[level](message, { ...base, ...context });
+  }
 
-    this.streams.set(callId, stream);
-    return stream;
+  private flushOutboundBuffer() {
+    if (!this.outboundBuffer || this.outboundBuffer.size === 0) {
+      return;
+    }
+    for (const frame of this.outboundBuffer.drain()) {
+      if ("call_id" in frame && !this.calls.has(frame.call_id)) {
+        this.emit("outboundDropped", { frame, reason: "call_ended" });
+        continue;
+      }
+      this.writeFrame(frame);
+    }
   }
 
-  private getOrCreateBrowserStream(callId: string): BrowserTunnelStream {
-    const existing = this.streams.get(callId);
-    if (existing instanceof BrowserTunnelStream) {
+  /** Returns the named stream, opening it when this side uses it first. */
+  private openLocalStream(callId: string, name: string, options?: StreamOptions): CallStream {
+    const existing = this.streams.get(callId)?.get(name);
+    if (existing) {
       return existing;
     }
+    if (name !== DEFAULT_STREAM_NAME) {
+      if (textEncoder.encode(name).byteLength > MAX_STREAM_NAME_BYTES) {
+        throw new Error(`Stream names are limited to ${MAX_STREAM_NAME_BYTES} bytes`);
+      }
+      this.assertSupported("streams");
+      this.closedStreams.get(callId)?.delete(name);
+    }
+    return this.createStream(callId, name, options);
+  }
 
-    const stream = new BrowserTunnelStream((chunk) => {
-      this.send({
+  /** Returns the named substream for inbound frames, opening it and emitting `stream` if the peer just did. */
+  private getRemoteStream(callId: string, name: string): CallStream | undefined {
+    const existing = this.streams.get(callId)?.get(name);
+    const call = this.calls.get(callId);
+    if (existing || !call || this.closedStreams.get(callId)?.has(name)) {
+      return existing;
+    }
+    const open = this.streams.get(callId);
+    const named = open ? open.size - (open.has(DEFAULT_STREAM_NAME) ? 1 : 0) : 0;
+    if (named >= MAX_REMOTE_STREAMS_PER_CALL) {
+      this.log("warn", "Refusing substream beyond the per-call limit", { callId, stream: name });
+      this.send({ type: "STREAM_CLOSE", call_id: callId, stream: name });
+      return undefined;
+    }
+    const stream = this.createStream(callId, name);
+    call.receiveStream(name, stream instanceof BrowserTunnelStream ? stream.createView() : stream);
+    return stream;
+  }
+
+  private createStream(callId: string, name: string, options?: StreamOptions): CallStream {
+    const wireName = name === DEFAULT_STREAM_NAME ? undefined : name;
+    const sendChunk = (chunk: Uint8Array) => {
+      this.sendCallMessage({
         type: "MSG",
         call_id: callId,
-        data: encodeBase64(chunk),
+        data: chunk,
         content_type: "binary",
+        stream: wireName,
+      })?.catch((error) => {
+        this.emit("error", error as Error);
       });
-    });
+      this.recordTraffic(callId, "sent", "binary", chunk.byteLength);
+    };
+    const flowControl = this.flowControlOptions(callId, wireName, options);
+    const sendEnd = () => {
+      if (this.calls.has(callId)) {
+        this.sendInOrder(callId, { type: "STREAM_END", call_id: callId, stream: wireName });
+      }
+    };
+
+    let stream: CallStream;
+    if (this.useWebStreams) {
+      stream = new BrowserTunnelStream(sendChunk, {
+        ...flowControl,
+        sendEnd,
+        onAbort: wireName === undefined ? undefined : () => this.detachStream(callId, name, stream, true),
+      });
+    } else {
+      const nodeStream = new TunnelStream(sendChunk, { ...flowControl, sendEnd });
+      stream = nodeStream;
+
+      nodeStream.on("error", (error) => {
+        this.emit("error", error);
+      });
+
+      // Both directions stay usable after either one ends, so the stream is
+      // only forgotten once it closes. The peer already knows about a stream
+      // that closed because both sides ended it.
+      nodeStream.once("close", () => {
+        const halfClosedBothWays = nodeStream.readableEnded && nodeStream.writableFinished;
+        this.detachStream(callId, name, nodeStream, wireName !== undefined && !halfClosedBothWays);
+      });
+    }
 
-    this.streams.set(callId, stream);
+    let streams = this.streams.get(callId);
+    if (!streams) {
+      streams = new Map();
+      this.streams.set(callId, streams);
+    }
+    streams.set(name, stream);
+    this.calls.get(callId)?.addStreamBlockedTimeSource(() => stream.blockedMs);
+
+    const credit = wireName === undefined ? this.pendingCredits.get(callId) : undefined;
+    if (credit !== undefined) {
+      this.pendingCredits.delete(callId);
+      stream.grantCredit(credit);
+    }
     return stream;
   }
 
-  private closeStream(callId: string) {
-    const stream = this.streams.get(callId);
-    if (!stream) {
+  /** Receive-window settings for a new stream; the initial CREDIT goes out as the stream is built. */
+  private flowControlOptions(callId: string, wireName: string | undefined, options?: StreamOptions) {
+    if (!this.peerSupports(callId, "flow_control")) {
+      return {};
+    }
+    return {
+      windowBytes: options?.windowBytes ?? this.streamWindowBytes,
+      sendCredit: (bytes: number) => this.sendCredit(callId, wireName, bytes),
+    };
+  }
+
+  /** Grants the peer credit on a stream, holding the grant while the call is suspended and nothing would queue it. */
+  private sendCredit(callId: string, wireName: string | undefined, bytes: number) {
+    const suspended = this.connectionState !== "connected" || this.suspendedCalls.has(callId);
+    if (!suspended || this.outboundBuffer) {
+      this.send({ type: "CREDIT", call_id: callId, stream: wireName, bytes });
+      return;
+    }
+    let held = this.heldCredits.get(callId);
+    if (!held) {
+      held = new Map();
+      this.heldCredits.set(callId, held);
+    }
+    held.set(wireName, (held.get(wireName) ?? 0) + bytes);
+  }
+
+  private releaseHeldCredits(callId: string) {
+    const held = this.heldCredits.get(callId);
+    this.heldCredits.delete(callId);
+    for (const [wireName, bytes] of held ?? []) {
+      this.send({ type: "CREDIT", call_id: callId, stream: wireName, bytes });
+    }
+  }
+
+  /** Forgets a stream that closed locally; named substreams tell the peer with STREAM_CLOSE. */
+  private detachStream(callId: string, name: string, stream: CallStream, notifyPeer: boolean) {
+    const streams = this.streams.get(callId);
+    if (streams?.get(name) !== stream) {
       return;
     }
+    streams.delete(name);
+    if (streams.size === 0) {
+      this.streams.delete(callId);
+    }
+    if (notifyPeer && this.calls.has(callId) && this.connectionState === "connected") {
+      this.markStreamClosed(callId, name);
+      this.send({ type: "STREAM_CLOSE", call_id: callId, stream: name });
+    }
+  }
+
+  private markStreamClosed(callId: string, name: string) {
+    let closed = this.closedStreams.get(callId);
+    if (!closed) {
+      closed = new Set();
+      this.closedStreams.set(callId, closed);
+    }
+    closed.add(name);
+  }
+
+  /** Ends the readable side of one stream because the call or the peer closed it. */
+  private closeStream(callId: string, name: string) {
+    const streams = this.streams.get(callId);
+    const stream = streams?.get(name);
+    if (!streams || !stream) {
+      return;
+    }
+    streams.delete(name);
+    if (streams.size === 0) {
+      this.streams.delete(callId);
+    }
     if (stream instanceof BrowserTunnelStream) {
       stream.end();
     } else {
       stream.endFromRemote();
+      stream.abortPendingWrite(new UndeliveredMessageError(callId, "stream_closed", "Stream closed before a write waiting for credit was sent"));
+    }
+  }
+
+  private closeStreams(callId: string) {
+    for (const name of Array.from(this.streams.get(callId)?.keys() ?? [])) {
+      this.closeStream(callId, name);
     }
-    this.streams.delete(callId);
   }
 }
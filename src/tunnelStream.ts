@@ -1,18 +1,49 @@
 import { Duplex, type DuplexOptions } from "node:stream";
+import { ReceiveWindow, SendCredits } from "./flowControl";
 
 type ChunkSender = (chunk: Buffer) => void;
 
+export interface TunnelStreamOptions extends DuplexOptions {
+  /** Bytes the peer may send before waiting for more credit. 0 disables receive-side flow control. */
+  windowBytes?: number;
+  /** Sends a CREDIT grant to the peer; required for receive-side flow control. */
+  sendCredit?: (bytes: number) => void;
+  /** Tells the peer this side has finished writing, once every written chunk has been sent. */
+  sendEnd?: () => void;
+}
+
 export class TunnelStream extends Duplex {
   private readonly sendChunk: ChunkSender;
+  private readonly credits = new SendCredits();
+  private readonly window: ReceiveWindow;
+  private readonly sendEnd: (() => void) | null;
+  private pendingWrite: { chunk: Buffer; callback: (error?: Error | null) => void } | null = null;
+  /** Bytes pushed while the readable buffer was full; credited back from _read(). */
+  private unconsumed = 0;
   private remoteEnded = false;
 
-  constructor(sendChunk: ChunkSender, options?: DuplexOptions) {
-    super(options);
+  constructor(sendChunk: ChunkSender, options: TunnelStreamOptions = {}) {
+    const { windowBytes, sendCredit, sendEnd, ...duplexOptions } = options;
+    super(duplexOptions);
     this.sendChunk = sendChunk;
+    this.sendEnd = sendEnd ?? null;
+    this.window = new ReceiveWindow(sendCredit ? windowBytes ?? 0 : 0, sendCredit ?? (() => {}));
+    this.window.open();
+  }
+
+  /** Milliseconds writes have spent waiting for credit from the peer. */
+  get blockedMs(): number {
+    return this.credits.blockedMs;
   }
 
   _read(_size: number): void {
-    // Reading is driven by remote messages; nothing to do here.
+    // Reading is driven by remote messages; the consumer asking for more means
+    // anything held back can be credited to the peer.
+    if (this.unconsumed > 0) {
+      const bytes = this.unconsumed;
+      this.unconsumed = 0;
+      this.window.consumed(bytes);
+    }
   }
 
   _write(
@@ -21,8 +52,17 @@ export class TunnelStream extends Duplex {
     callback: (error?: Error | null) => void,
   ): void {
     try {
-      const buffer = this.normalizeChunk(chunk, encoding);
-      this.sendChunk(buffer);
+      this.pendingWrite = { chunk: this.normalizeChunk(chunk, encoding), callback };
+    } catch (error) {
+      callback(error as Error);
+      return;
+    }
+    this.flushPendingWrite();
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    try {
+      this.sendEnd?.();
       callback();
     } catch (error) {
       callback(error as Error);
@@ -31,11 +71,19 @@ export class TunnelStream extends Duplex {
 
   /** Pushes a chunk from the remote peer into the stream. */
   pushChunk(chunk: Buffer) {
-    if (!this.push(chunk)) {
-      // Backpressure is handled by Node.js streams; we simply stop pushing until _read is called again.
+    if (this.push(chunk)) {
+      this.window.consumed(chunk.byteLength);
+    } else {
+      this.unconsumed += chunk.byteLength;
     }
   }
 
+  /** Applies a CREDIT grant from the peer and resumes a write waiting on it. */
+  grantCredit(bytes: number) {
+    this.credits.grant(bytes);
+    this.flushPendingWrite();
+  }
+
   /** Marks the remote side as closed and ends the readable side. */
   endFromRemote() {
     if (this.remoteEnded) {
@@ -45,11 +93,52 @@ export class TunnelStream extends Duplex {
     this.push(null);
   }
 
+  /** Fails a write still waiting for credit, which the closed stream will never be granted. */
+  abortPendingWrite(error: Error) {
+    const pending = this.pendingWrite;
+    if (!pending) {
+      return;
+    }
+    this.pendingWrite = null;
+    pending.callback(error);
+  }
+
   override destroy(error?: Error | null): this {
     this.remoteEnded = true;
     return super.destroy(error ?? undefined);
   }
 
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.abortPendingWrite(error ?? new Error("Stream was destroyed before the write was sent"));
+    callback(error);
+  }
+
+  /** Sends as much of the pending write as the peer's credit allows; splits chunks at the window edge. */
+  private flushPendingWrite() {
+    const pending = this.pendingWrite;
+    if (!pending) {
+      return;
+    }
+
+    try {
+      while (pending.chunk.byteLength > 0) {
+        const size = this.credits.take(pending.chunk.byteLength);
+        if (size === 0) {
+          return;
+        }
+        this.sendChunk(pending.chunk.subarray(0, size));
+        pending.chunk = pending.chunk.subarray(size);
+      }
+    } catch (error) {
+      this.pendingWrite = null;
+      pending.callback(error as Error);
+      return;
+    }
+
+    this.pendingWrite = null;
+    pending.callback();
+  }
+
   private normalizeChunk(chunk: Buffer | string, encoding: BufferEncoding): Buffer {
     if (Buffer.isBuffer(chunk)) {
       return chunk;
@@ -1,8 +1,35 @@
 import type { Duplex } from "node:stream";
 import type { EventEmitter } from "node:events";
 import type { TransportFactory } from "./transport";
+import type { FailoverStrategy } from "./endpoints";
+import type { OutboundBufferOptions, OutboundDropReason } from "./outboundBuffer";
+import type { CallStats, TrimphoneStats } from "./stats";
+import type { FrameTraceHook, TrimphoneLogger } from "./logger";
+import type { BusyReason } from "./errors";
+import type { CallDetailRecord, HistoryStore } from "./history";
+import type { AccessControlList, AclDenialReason } from "./acl";
+import type { TrimphoneFeature } from "./capabilities";
+import type { WireCodec } from "./codec";
+import type { SendProgress } from "./fragmentation";
+import type { CompressionAlgorithm } from "./compression";
+import type { RpcClientOptions, RpcHandler, RpcProxy } from "./rpc";
 
 export type PresenceStatus = "available" | "busy" | "dnd" | "away";
+
+export interface PresenceUpdate {
+  address: string;
+  /** "offline" is reported for watched addresses with no registered session. */
+  status: PresenceStatus | "offline";
+  message?: string;
+}
+
+export type PresenceListener = (update: PresenceUpdate) => void;
+
+/** What to do with a ringing call: pick it up, decline it, or redirect it to another address. */
+export type RingDecision = "answer" | "reject" | { reject: BusyReason } | { forward: string };
+
+/** Screens inbound calls; returning nothing leaves the call ringing for `ring` listeners to handle. */
+export type RingHandler = (call: Call) => RingDecision | void | Promise<RingDecision | void>;
 export type ConcurrencyMode = "single" | "broadcast" | "parallel";
 
 export interface RegisterOptions {
@@ -12,6 +39,8 @@ export interface RegisterOptions {
   maxListeners?: number;
   maxSessions?: number;
   poolSize?: number;
+  /** Callers refused by this list get BUSY "forbidden" without a `Call` being created. */
+  acl?: AccessControlList;
 }
 
 export interface TrimphoneOptions {
@@ -22,12 +51,116 @@ export interface TrimphoneOptions {
   reconnectBackoffMs?: number;
   maxReconnectBackoffMs?: number;
   registerOnConnect?: boolean;
+  /**
+   * Keeps active calls suspended for this long after the transport drops and asks the
+   * exchange to reattach them once re-registered. 0 (default) hangs calls up immediately.
+   */
+  resumeGracePeriodMs?: number;
+  /** Emits a `stats` event with a `getStats()` snapshot at this interval. 0 (default) disables it. */
+  statsIntervalMs?: number;
+  /** Rejects inbound calls with BUSY "no_answer" if they are still ringing after this long. 0 (default) disables it. */
+  ringTimeoutMs?: number;
+  /** Rejects `unregister()` if the exchange has not confirmed it within this long. 0 disables it. Defaults to 10 seconds. */
+  unregisterTimeoutMs?: number;
+  /** How the next endpoint is picked when connecting or failing over. Defaults to "ordered". */
+  failoverStrategy?: FailoverStrategy;
+  /** Initial backoff applied to an endpoint after it fails; doubles per consecutive failure. */
+  endpointBackoffMs?: number;
+  maxEndpointBackoffMs?: number;
+  /**
+   * Preferred wire codec, offered to the exchange on REGISTER. Frames stay JSON
+   * until the exchange accepts it. Defaults to `jsonCodec`.
+   */
+  codec?: WireCodec;
+  /**
+   * Offer the "binary_frames" feature so binary payloads, including tunnel data,
+   * travel as raw WebSocket binary messages instead of base64. Falls back to
+   * base64 when the exchange does not accept it. Defaults to false.
+   */
+  binaryFrames?: boolean;
+  /**
+   * Bytes a peer may send on a call's stream before waiting for this client to
+   * grant more credit. 0 disables receive-side flow control. Defaults to 256 KiB.
+   */
+  streamWindowBytes?: number;
+  /**
+   * Largest `call.send()` payload, in bytes, carried by a single MSG frame. Larger
+   * payloads are split into fragments when the exchange supports it. 0 disables
+   * fragmentation. Defaults to 1 MiB.
+   */
+  maxFrameBytes?: number;
+  /** Fragmented messages from the peer larger than this are dropped; also caps the bytes buffered per call. Defaults to 64 MiB. */
+  maxMessageBytes?: number;
+  /**
+   * Compression algorithms offered when dialling and accepted when answering, in
+   * order of preference. Empty (the default) leaves payloads uncompressed.
+   */
+  compression?: CompressionAlgorithm[];
+  /** Payloads and stream chunks smaller than this are never compressed. Defaults to 1 KiB. */
+  compressionThresholdBytes?: number;
+  /**
+   * Encrypt every call end to end: ask for it when dialling and insist on it when
+   * answering. Calls whose peer asks for it are encrypted either way. Defaults to false.
+   */
+  encryption?: boolean;
+  /** Calls whose end-to-end key exchange has not finished within this time are hung up. Defaults to 10 seconds. */
+  encryptionTimeoutMs?: number;
+  /**
+   * Sequence and acknowledge every call frame so `call.send()` resolves on delivery
+   * and frames lost to a reconnect are sent again. Needs the exchange's `acks`
+   * feature; calls whose peer asks for it are reliable either way. Defaults to false.
+   */
+  reliable?: boolean;
+  /** How long a reliable call waits for an ACK to make progress before sending unacknowledged frames again. Defaults to 1 second. */
+  retransmitTimeoutMs?: number;
+  /** Where call detail records are kept. Defaults to an in-memory ring buffer of 1000 calls. */
+  history?: HistoryStore;
+  /** Opt-in buffering of outbound frames while the client is reconnecting. */
+  outboundBuffer?: OutboundBufferOptions;
+  /** Structured logger. Defaults to a console logger when `debug` is set, otherwise silent. */
+  logger?: TrimphoneLogger;
+  /** Called for every inbound and outbound SystemX frame. */
+  onFrame?: FrameTraceHook;
+  /** Pass binary MSG payloads to `onFrame` unredacted. Defaults to false. */
+  traceBinaryPayloads?: boolean;
+  /** Logs lifecycle events and every frame at debug level. */
   debug?: boolean;
 }
 
 export interface DialOptions {
   metadata?: Record<string, unknown>;
+  /** Rejects with `DialTimeoutError` if the exchange has not answered within this many milliseconds. */
   timeoutMs?: number;
+  /** Cancels a ringing dial; the promise rejects with `DialAbortedError`. */
+  signal?: AbortSignal;
+  /**
+   * Receives the outbound call as soon as the exchange reports progress for it, so
+   * `progress` and `stateChange` listeners can be attached before `dial()` resolves.
+   */
+  onCall?: (call: Call) => void;
+  /** Compression algorithms to offer for this call, overriding the client's `compression` option. */
+  compression?: CompressionAlgorithm[];
+  /** Ask for end-to-end encryption of this call, overriding the client's `encryption` option. */
+  encrypt?: boolean;
+  /** Ask for reliable delivery on this call, overriding the client's `reliable` option. */
+  reliable?: boolean;
+}
+
+/** Name of a substream within a call; numbers are converted to strings. */
+export type StreamName = string | number;
+
+/** Web Streams view of a call stream, as returned by `getWebStream()`. */
+export interface WebStreamPair {
+  readable: ReadableStream<Uint8Array>;
+  writable: WritableStream<Uint8Array>;
+}
+
+export interface StreamOptions {
+  /**
+   * Receive window for this call's stream in bytes, overriding `streamWindowBytes`.
+   * Only applies when the stream is first created.
+   */
+  windowBytes?: number;
 }
 
 export interface MessagePayload {
@@ -39,11 +172,41 @@ export interface CallStreamFactory {
   (call: Call): Duplex;
 }
 
+export type CallState = "pending" | "ringing" | "active" | "suspended" | "ended";
+
+export interface CallTimestamps {
+  createdAt: number;
+  /** When the call started ringing: on arrival for inbound calls, on RINGING for outbound dials. */
+  ringingAt: number | null;
+  answeredAt: number | null;
+  endedAt: number | null;
+}
+
+/** Progress reported by the exchange while an outbound dial is being routed. */
+export interface CallProgress {
+  stage: "ringing" | "queued" | "progress";
+  /** Position in the callee's queue, for "queued". */
+  position?: number;
+  message?: string;
+}
+
 export interface CallEvents {
   message: (message: unknown) => void;
   hangup: (reason?: string) => void;
   error: (error: Error) => void;
   connected: () => void;
+  suspended: () => void;
+  resumed: () => void;
+  stateChange: (change: { previous: CallState; current: CallState }) => void;
+  progress: (progress: CallProgress) => void;
+  /** The end-to-end key exchange finished; payloads are encrypted from here on. */
+  encrypted: (peerFingerprint: string) => void;
+  /** Snapshot of `getStats()`, emitted every `statsIntervalMs` while the call exists. */
+  stats: (stats: CallStats) => void;
+  /** Fired after each fragment of a message too large for one frame has been sent. */
+  sendProgress: (progress: SendProgress) => void;
+  /** The remote side opened a named substream; Node receives a Duplex, browsers a `WebStreamPair`. */
+  stream: (name: string, stream: Duplex | WebStreamPair) => void;
 }
 
 export interface TrimphoneEvents {
@@ -53,7 +216,14 @@ export interface TrimphoneEvents {
   ring: (call: Call) => void;
   registered: (address: string) => void;
   registrationFailed: (reason: string) => void;
+  unregistered: (address: string) => void;
+  presence: (update: PresenceUpdate) => void;
   heartbeatAck: (timestamp: number) => void;
+  failover: (details: { from: string; to: string }) => void;
+  stats: (stats: TrimphoneStats) => void;
+  callRecord: (record: CallDetailRecord) => void;
+  accessDenied: (details: { callId: string; from: string; metadata: Record<string, unknown>; reason: AclDenialReason }) => void;
+  outboundDropped: (details: { frame: SystemXOutboundMessage; reason: OutboundDropReason }) => void;
 }
 
 export type SystemXOutboundMessage =
@@ -65,10 +235,35 @@ export type SystemXOutboundMessage =
       max_listeners?: number;
       max_sessions?: number;
       pool_size?: number;
+      /** Previous session being resumed after a reconnect. */
+      session_id?: string;
+      protocol_version: number;
+      /** Optional features the client can use if the exchange supports them too. */
+      features: TrimphoneFeature[];
+      /** Wire codecs in order of preference; omitted when only JSON is offered. */
+      codecs?: string[];
     }
   | {
       type: "UNREGISTER";
     }
+  | {
+      type: "STATUS";
+      status: PresenceStatus;
+      message?: string;
+    }
+  | {
+      type: "SUBSCRIBE";
+      address: string;
+    }
+  | {
+      type: "UNSUBSCRIBE";
+      address: string;
+    }
+  | {
+      type: "RESUME";
+      session_id: string;
+      call_ids: string[];
+    }
   | {
       type: "HEARTBEAT";
     }
@@ -76,21 +271,71 @@ export type SystemXOutboundMessage =
       type: "DIAL";
       to: string;
       metadata?: Record<string, unknown>;
+      /** Client-generated correlation ID, echoed back on CONNECTED/BUSY by exchanges that support it. */
+      dial_id?: string;
     }
   | {
       type: "ANSWER";
       call_id: string;
+      /** Relayed to the caller in CONNECTED metadata; carries the chosen compression. */
+      metadata?: Record<string, unknown>;
     }
   | {
       type: "HANGUP";
       call_id: string;
       reason?: string;
     }
+  | {
+      type: "REJECT";
+      call_id: string;
+      reason: BusyReason;
+    }
+  | {
+      type: "FORWARD";
+      call_id: string;
+      to: string;
+    }
   | {
       type: "MSG";
       call_id: string;
       data: unknown;
       content_type?: "text" | "json" | "binary";
+      /** Substream the data belongs to; absent for the call's default stream. */
+      stream?: string;
+      /** Set on each fragment of a message split across several frames. */
+      fragment_id?: string;
+      fragment_index?: number;
+      fragment_count?: number;
+      /** Algorithm `data` was compressed with; the payload is then always bytes. */
+      compression?: CompressionAlgorithm;
+      /** "key" carries this side's public key for the end-to-end exchange; "sealed" an encrypted payload. */
+      e2e?: "key" | "sealed";
+      /** Per-call sequence number on reliable calls. */
+      seq?: number;
+    }
+  | {
+      /** Acknowledges every MSG of the call up to and including `seq`. */
+      type: "ACK";
+      call_id: string;
+      seq: number;
+    }
+  | {
+      /** Grants the peer this many more bytes of stream data. */
+      type: "CREDIT";
+      call_id: string;
+      stream?: string;
+      bytes: number;
+    }
+  | {
+      /** The sender has finished writing to the stream; the other direction stays open. */
+      type: "STREAM_END";
+      call_id: string;
+      stream?: string;
+    }
+  | {
+      type: "STREAM_CLOSE";
+      call_id: string;
+      stream: string;
     };
 
 export type SystemXInboundMessage =
@@ -100,6 +345,7 @@ export type SystemXInboundMessage =
       to?: string;
       from?: string;
       metadata?: Record<string, unknown>;
+      dial_id?: string;
     }
   | {
       type: "RING";
@@ -111,16 +357,59 @@ export type SystemXInboundMessage =
       type: "REGISTERED";
       address: string;
       session_id: string;
+      /** Absent on exchanges that predate capability negotiation. */
+      protocol_version?: number;
+      features?: string[];
+      /** Codec the exchange switches to after this frame. */
+      codec?: string;
     }
   | {
       type: "REGISTER_FAILED";
       reason: string;
     }
+  | {
+      type: "UNREGISTERED";
+      address?: string;
+    }
+  | {
+      type: "PRESENCE";
+      address: string;
+      status: PresenceStatus | "offline";
+      message?: string;
+    }
   | {
       type: "MSG";
       call_id: string;
       data: unknown;
       content_type?: "text" | "json" | "binary";
+      stream?: string;
+      fragment_id?: string;
+      fragment_index?: number;
+      fragment_count?: number;
+      compression?: string;
+      e2e?: string;
+      seq?: number;
+    }
+  | {
+      type: "ACK";
+      call_id: string;
+      seq: number;
+    }
+  | {
+      type: "CREDIT";
+      call_id: string;
+      stream?: string;
+      bytes: number;
+    }
+  | {
+      type: "STREAM_END";
+      call_id: string;
+      stream?: string;
+    }
+  | {
+      type: "STREAM_CLOSE";
+      call_id: string;
+      stream: string;
     }
   | {
       type: "HANGUP";
@@ -131,11 +420,39 @@ export type SystemXInboundMessage =
       type: "BUSY";
       to: string;
       reason: string;
+      dial_id?: string;
+      /** Present when the dial had already reported progress under this call ID. */
+      call_id?: string;
+    }
+  | {
+      type: "RINGING";
+      call_id: string;
+      to?: string;
+      dial_id?: string;
+    }
+  | {
+      type: "QUEUED";
+      call_id: string;
+      to?: string;
+      dial_id?: string;
+      position?: number;
+    }
+  | {
+      type: "PROGRESS";
+      call_id: string;
+      to?: string;
+      dial_id?: string;
+      message?: string;
     }
   | {
       type: "HEARTBEAT_ACK";
       timestamp: number;
     }
+  | {
+      type: "RESUMED";
+      call_ids: string[];
+      failed?: string[];
+    }
   | {
       type: string;
       [key: string]: unknown;
@@ -148,12 +465,19 @@ export interface Call extends EventEmitter {
   readonly from?: string;
   readonly to?: string;
   readonly metadata?: Record<string, unknown>;
+  readonly state: CallState;
+  readonly timestamps: Readonly<CallTimestamps>;
+  readonly duration: number;
+  readonly compression: CompressionAlgorithm | null;
+  readonly isEncrypted: boolean;
+  readonly isReliable: boolean;
+  readonly peerFingerprint: string | null;
   answer(): Promise<void> | void;
   hangup(reason?: string): Promise<void> | void;
-  send(message: unknown, contentType?: MessagePayload["contentType"]): void;
-  getStream(): Duplex;
-  getWebStream?(): {
-    readable: ReadableStream<Uint8Array>;
-    writable: WritableStream<Uint8Array>;
-  };
+  reject(reason?: BusyReason): void;
+  forward(to: string): void;
+  send(message: unknown, contentType?: MessagePayload["contentType"]): Promise<void>;
+  getStream(name?: StreamName | StreamOptions, options?: StreamOptions): Duplex;
+  getWebStream?(name?: StreamName | StreamOptions, options?: StreamOptions): WebStreamPair;
+  rpc<Methods = Record<string, RpcHandler>>(options?: RpcClientOptions): RpcProxy<Methods>;
 }
@@ -15,3 +15,49 @@ export function isValidAddress(address: string): boolean {
   }
   return true;
 }
+
+let idCounter = 0;
+
+/** Generates an identifier that is unique for the lifetime of this client process. */
+export function createId(prefix: string): string {
+  idCounter = (idCounter + 1) % Number.MAX_SAFE_INTEGER;
+  const random = Math.random().toString(36).slice(2, 10);
+  return `${prefix}-${Date.now().toString(36)}-${idCounter.toString(36)}-${random}`;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== "undefined") {
+    return Buffer.from(bytes).toString("base64");
+  }
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+}
+
+/** Decodes base64 text; raw byte containers are passed through as a Uint8Array view. */
+export function decodeBase64(data: unknown): Uint8Array {
+  if (typeof data === "string") {
+    if (typeof Buffer !== "undefined") {
+      return new Uint8Array(Buffer.from(data, "base64"));
+    }
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i += 1) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data);
+  }
+  if (ArrayBuffer.isView(data)) {
+    const view = data as ArrayBufferView;
+    return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  }
+  if (typeof Buffer !== "undefined" && Buffer.isBuffer(data)) {
+    return new Uint8Array(data);
+  }
+  return new Uint8Array();
+}
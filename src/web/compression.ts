@@ -0,0 +1,42 @@
+import type { CompressionAlgorithm, PayloadCompressor } from "../compression";
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/** Reads the inflated output chunk by chunk so a small payload cannot expand without bound. */
+async function inflate(bytes: Uint8Array, stream: DecompressionStream, maxOutputBytes: number): Promise<Uint8Array | null> {
+  const reader = new Blob([bytes as BlobPart]).stream().pipeThrough(stream).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxOutputBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const output = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return output;
+}
+
+/** Compression with the browser's `CompressionStream`, whose "deflate" and "gzip" formats match zlib's. */
+export const browserCompressor: PayloadCompressor = {
+  compress(algorithm: CompressionAlgorithm, bytes: Uint8Array) {
+    return transform(bytes, new CompressionStream(algorithm));
+  },
+  decompress(algorithm: CompressionAlgorithm, bytes: Uint8Array, maxOutputBytes: number) {
+    return inflate(bytes, new DecompressionStream(algorithm), maxOutputBytes);
+  },
+};
@@ -0,0 +1,69 @@
+import { applyHistoryQuery, toEpoch, type CallDetailRecord, type HistoryQuery, type HistoryStore } from "../history";
+
+export interface IndexedDbHistoryStoreOptions {
+  databaseName?: string;
+  storeName?: string;
+  /** Defaults to the global `indexedDB`; override for tests or workers. */
+  indexedDB?: IDBFactory;
+}
+
+const ENDED_AT_INDEX = "endedAt";
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Browser history store backed by an IndexedDB object store keyed by call ID. */
+export class IndexedDbHistoryStore implements HistoryStore {
+  private readonly databaseName: string;
+  private readonly storeName: string;
+  private readonly factory: IDBFactory;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDbHistoryStoreOptions = {}) {
+    this.databaseName = options.databaseName ?? "trimphone";
+    this.storeName = options.storeName ?? "calls";
+    const factory = options.indexedDB ?? globalThis.indexedDB;
+    if (!factory) {
+      throw new Error("IndexedDB is not available in this environment");
+    }
+    this.factory = factory;
+  }
+
+  async append(record: CallDetailRecord): Promise<void> {
+    const store = await this.objectStore("readwrite");
+    await promisify(store.put(record));
+  }
+
+  async query(query: HistoryQuery = {}): Promise<CallDetailRecord[]> {
+    const store = await this.objectStore("readonly");
+    const range = query.since !== undefined ? IDBKeyRange.lowerBound(toEpoch(query.since)) : undefined;
+    const records = await promisify(store.index(ENDED_AT_INDEX).getAll(range));
+    return applyHistoryQuery(records as CallDetailRecord[], query);
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.objectStore("readwrite");
+    await promisify(store.clear());
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = this.factory.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(this.storeName, { keyPath: "id" });
+        store.createIndex(ENDED_AT_INDEX, "endedAt");
+      };
+      this.database = promisify(request);
+    }
+    return this.database;
+  }
+}
@@ -1,45 +1,88 @@
+import { ReceiveWindow, SendCredits } from "../flowControl";
+
+/** Bytes each readable view queues before it stops crediting the peer. */
+const READ_BUFFER_BYTES = 64 * 1024;
+
+export interface BrowserTunnelStreamOptions {
+  /** Bytes the peer may send before waiting for more credit. 0 disables receive-side flow control. */
+  windowBytes?: number;
+  /** Sends a CREDIT grant to the peer; required for receive-side flow control. */
+  sendCredit?: (bytes: number) => void;
+  /** Tells the peer this side has finished writing; called when the first view's writable closes. */
+  sendEnd?: () => void;
+  /** Called when a view's writable is aborted, to close the whole stream. */
+  onAbort?: () => void;
+}
+
 export class BrowserTunnelStream {
   private readonly sendChunk: (chunk: Uint8Array) => void;
   private readonly controllers = new Set<ReadableStreamDefaultController<Uint8Array>>();
+  private readonly credits = new SendCredits();
+  private readonly window: ReceiveWindow;
+  private readonly sendEnd: (() => void) | null;
+  private readonly onAbort: (() => void) | null;
+  private creditWaiters: Array<() => void> = [];
+  /** Bytes queued in views that are still full; credited back once every view has room. */
+  private unconsumed = 0;
+  private readableEnded = false;
+  private writableEnded = false;
   private closed = false;
 
-  constructor(sendChunk: (chunk: Uint8Array) => void) {
+  constructor(sendChunk: (chunk: Uint8Array) => void, options: BrowserTunnelStreamOptions = {}) {
     this.sendChunk = sendChunk;
+    this.window = new ReceiveWindow(options.sendCredit ? options.windowBytes ?? 0 : 0, options.sendCredit ?? (() => {}));
+    this.sendEnd = options.sendEnd ?? null;
+    this.onAbort = options.onAbort ?? null;
+    this.window.open();
+  }
+
+  /** Milliseconds writes have spent waiting for credit from the peer. */
+  get blockedMs(): number {
+    return this.credits.blockedMs;
   }
 
   createView(): { readable: ReadableStream<Uint8Array>; writable: WritableStream<Uint8Array> } {
     let controllerRef: ReadableStreamDefaultController<Uint8Array> | null = null;
 
-    const readable = new ReadableStream<Uint8Array>({
-      start: (controller) => {
-        controllerRef = controller;
-        if (this.closed) {
-          controller.close();
-          controllerRef = null;
-        } else {
-          this.controllers.add(controller);
-        }
-      },
-      cancel: () => {
-        if (controllerRef) {
-          this.controllers.delete(controllerRef);
-          controllerRef = null;
-        }
+    const readable = new ReadableStream<Uint8Array>(
+      {
+        start: (controller) => {
+          controllerRef = controller;
+          if (this.closed || this.readableEnded) {
+            controller.close();
+            controllerRef = null;
+          } else {
+            this.controllers.add(controller);
+          }
+        },
+        pull: () => {
+          this.releaseConsumed();
+        },
+        cancel: () => {
+          if (controllerRef) {
+            this.controllers.delete(controllerRef);
+            controllerRef = null;
+          }
+          this.releaseConsumed();
+        },
       },
-    });
+      new ByteLengthQueuingStrategy({ highWaterMark: READ_BUFFER_BYTES }),
+    );
 
     const writable = new WritableStream<Uint8Array>({
-      write: (chunk) => {
-        if (this.closed) {
-          return;
-        }
-        this.sendChunk(chunk);
-      },
+      write: (chunk) => this.writeChunk(chunk),
       close: () => {
-        // closing view does not close tunnel
+        // Half-close: the peer sees end of stream, reading continues.
+        if (!this.closed && !this.writableEnded) {
+          this.writableEnded = true;
+          this.sendEnd?.();
+        }
       },
       abort: () => {
-        // ignore abort from view
+        if (this.onAbort && !this.closed) {
+          this.end();
+          this.onAbort();
+        }
       },
     });
 
@@ -47,12 +90,29 @@ export class BrowserTunnelStream {
   }
 
   pushChunk(chunk: Uint8Array) {
-    if (this.closed) {
+    if (this.closed || this.readableEnded) {
       return;
     }
     for (const controller of this.controllers) {
       controller.enqueue(chunk);
     }
+    this.unconsumed += chunk.byteLength;
+    this.releaseConsumed();
+  }
+
+  /** Applies a CREDIT grant from the peer and wakes writes waiting on it. */
+  grantCredit(bytes: number) {
+    this.credits.grant(bytes);
+    this.wakeWriters();
+  }
+
+  /** Ends the readable side after the peer finished writing; this side can still write. */
+  endFromRemote() {
+    if (this.closed || this.readableEnded) {
+      return;
+    }
+    this.readableEnded = true;
+    this.closeControllers();
   }
 
   end() {
@@ -60,9 +120,55 @@ export class BrowserTunnelStream {
       return;
     }
     this.closed = true;
+    this.closeControllers();
+    this.wakeWriters();
+  }
+
+  private closeControllers() {
     for (const controller of this.controllers) {
       controller.close();
     }
     this.controllers.clear();
   }
+
+  /** Resolves once the whole chunk has been sent, splitting it at the window edge. */
+  private async writeChunk(chunk: Uint8Array): Promise<void> {
+    // Views share one writable side, so a write through another view after one
+    // of them closed would send data after STREAM_END.
+    if (this.writableEnded) {
+      throw new Error("Cannot write after the stream was ended");
+    }
+    let remaining = chunk;
+    while (remaining.byteLength > 0 && !this.closed) {
+      const size = this.credits.take(remaining.byteLength);
+      if (size === 0) {
+        await new Promise<void>((resolve) => this.creditWaiters.push(resolve));
+        continue;
+      }
+      this.sendChunk(remaining.subarray(0, size));
+      remaining = remaining.subarray(size);
+    }
+  }
+
+  private wakeWriters() {
+    const waiters = this.creditWaiters;
+    this.creditWaiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+
+  private releaseConsumed() {
+    if (this.unconsumed === 0) {
+      return;
+    }
+    for (const controller of this.controllers) {
+      if ((controller.desiredSize ?? 0) <= 0) {
+        return;
+      }
+    }
+    const bytes = this.unconsumed;
+    this.unconsumed = 0;
+    this.window.consumed(bytes);
+  }
 }
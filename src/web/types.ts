@@ -1,6 +1,7 @@
 export interface WebSocketLike extends EventTarget {
   readonly readyState: number;
   readonly url: string;
+  binaryType?: BinaryType;
   send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void;
   close(code?: number, reason?: string): void;
   addEventListener<K extends keyof WebSocketEventMap>(
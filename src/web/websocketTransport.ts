@@ -27,6 +27,8 @@ export class BrowserWebSocketTransport extends BaseTransport {
     await new Promise<void>((resolve, reject) => {
       const ws = this.factory(url, protocols);
       this.socket = ws;
+      // Binary codecs need bytes synchronously rather than as Blobs.
+      ws.binaryType = "arraybuffer";
 
       const handleMessage = (event: MessageEvent) => {
         this.emit("message", event.data);
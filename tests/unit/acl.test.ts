@@ -0,0 +1,41 @@
+import { describe, expect, it } from "bun:test";
+import { evaluateAcl, matchAddressPattern } from "../../src/acl";
+
+describe("matchAddressPattern", () => {
+  it("supports * and ? wildcards case-insensitively", () => {
+    expect(matchAddressPattern("*@ops.example.com", "alice@OPS.example.com")).toBe(true);
+    expect(matchAddressPattern("*@ops.example.com", "alice@ops.example.com.evil")).toBe(false);
+    expect(matchAddressPattern("agent-?@example.com", "agent-7@example.com")).toBe(true);
+    expect(matchAddressPattern("agent-?@example.com", "agent-42@example.com")).toBe(false);
+    expect(matchAddressPattern("a.b@example.com", "axb@example.com")).toBe(false);
+  });
+});
+
+describe("evaluateAcl", () => {
+  it("lets deny entries win over allow entries", () => {
+    const acl = { allow: ["*@ops.example.com"], deny: ["intern@ops.example.com"] };
+    expect(evaluateAcl(acl, "alice@ops.example.com")).toEqual({ allowed: true });
+    expect(evaluateAcl(acl, "intern@ops.example.com")).toEqual({
+      allowed: false,
+      reason: "denied",
+      rule: "intern@ops.example.com",
+    });
+    expect(evaluateAcl(acl, "mallory@example.com")).toEqual({ allowed: false, reason: "not_allowed" });
+  });
+
+  it("matches metadata values and predicates", () => {
+    const acl = {
+      allow: [
+        { address: "*@example.com", metadata: { role: "admin" } },
+        { metadata: (metadata: Record<string, unknown>) => metadata.token === "secret" },
+      ],
+    };
+    expect(evaluateAcl(acl, "root@example.com", { role: "admin" }).allowed).toBe(true);
+    expect(evaluateAcl(acl, "root@example.com", { role: "guest" }).allowed).toBe(false);
+    expect(evaluateAcl(acl, "bot@elsewhere.io", { token: "secret" }).allowed).toBe(true);
+  });
+
+  it("allows everyone when no lists are given", () => {
+    expect(evaluateAcl({}, "anyone@example.com")).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "bun:test";
+import {
+  BINARY_FRAME_FLAG_STREAM,
+  BINARY_FRAME_MAGIC,
+  BINARY_FRAME_VERSION,
+  decodeBinaryFrame,
+  encodeBinaryFrame,
+  isBinaryFrame,
+} from "../../src/binaryFrame";
+import { encodeMessagePack } from "../../src/msgpack";
+
+describe("binary data frames", () => {
+  it("round-trips call ID, flags and payload", () => {
+    const data = new Uint8Array([0, 1, 2, 3, 255]);
+    const encoded = encodeBinaryFrame({ callId: "call-ü", flags: 4, data });
+
+    expect(encoded[0]).toBe(BINARY_FRAME_MAGIC);
+    expect(encoded.byteLength).toBe(5 + 7 + data.byteLength);
+    expect(decodeBinaryFrame(encoded)).toEqual({ callId: "call-ü", flags: 4, data });
+  });
+
+  it("is distinguishable from JSON and MessagePack frames", () => {
+    expect(isBinaryFrame(new TextEncoder().encode('{"type":"PING"}'))).toBe(false);
+    expect(isBinaryFrame(encodeMessagePack({ type: "PING" }))).toBe(false);
+    expect(isBinaryFrame(encodeBinaryFrame({ callId: "c", flags: 0, data: new Uint8Array() }))).toBe(true);
+  });
+
+  it("rejects truncated headers and unknown versions", () => {
+    const encoded = encodeBinaryFrame({ callId: "call-1", flags: 0, data: new Uint8Array() });
+    expect(() => decodeBinaryFrame(encoded.subarray(0, 8))).toThrow("Truncated");
+
+    const future = encoded.slice();
+    future[1] = 3;
+    expect(() => decodeBinaryFrame(future)).toThrow("version 3");
+
+    const legacy = encodeBinaryFrame({ callId: "call-1", stream: "logs", flags: 0, data: new Uint8Array() });
+    legacy[1] = 1;
+    expect(() => decodeBinaryFrame(legacy)).toThrow("cannot carry a stream name");
+  });
+
+  it("carries substream names behind the stream flag", () => {
+    const data = new Uint8Array([7, 7]);
+    const encoded = encodeBinaryFrame({ callId: "call-1", stream: "logs", flags: 0, data });
+
+    expect(encoded[1]).toBe(BINARY_FRAME_VERSION);
+    expect(encoded[2] & BINARY_FRAME_FLAG_STREAM).toBe(BINARY_FRAME_FLAG_STREAM);
+    expect(decodeBinaryFrame(encoded)).toEqual({ callId: "call-1", stream: "logs", flags: BINARY_FRAME_FLAG_STREAM, data });
+    expect(decodeBinaryFrame(encodeBinaryFrame({ callId: "call-1", flags: 0, data })).stream).toBeUndefined();
+  });
+});
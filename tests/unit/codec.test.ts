@@ -0,0 +1,77 @@
+import { describe, expect, it } from "bun:test";
+import { isJsonText, jsonCodec } from "../../src/codec";
+import { decodeMessagePack, encodeMessagePack, msgpackCodec } from "../../src/msgpack";
+
+describe("jsonCodec", () => {
+  it("encodes byte arrays, including Buffers, as base64", () => {
+    const encoded = jsonCodec.encode({ type: "MSG", data: Buffer.from("hi"), nested: { raw: new Uint8Array([1, 2]) } });
+    expect(JSON.parse(encoded as string)).toEqual({ type: "MSG", data: "aGk=", nested: { raw: "AQI=" } });
+  });
+
+  it("decodes text delivered as bytes", () => {
+    expect(jsonCodec.decode(new TextEncoder().encode('{"type":"PONG"}'))).toEqual({ type: "PONG" });
+  });
+});
+
+describe("isJsonText", () => {
+  it("recognises JSON objects after leading whitespace", () => {
+    expect(isJsonText(new TextEncoder().encode(' \n{"type":"PONG"}'))).toBe(true);
+    expect(isJsonText(encodeMessagePack({ type: "PONG" }))).toBe(false);
+    expect(isJsonText(new Uint8Array())).toBe(false);
+  });
+});
+
+describe("MessagePack", () => {
+  it("round-trips every supported type", () => {
+    const value = {
+      nil: null,
+      yes: true,
+      no: false,
+      ints: [0, 127, 128, 255, 256, 65535, 65536, 4294967295, 4294967296, Number.MAX_SAFE_INTEGER],
+      negatives: [-1, -32, -33, -128, -129, -32768, -32769, -2147483648, -2147483649, Number.MIN_SAFE_INTEGER],
+      floats: [0.5, -1.25, 1e100],
+      short: "hello",
+      long: "x".repeat(300),
+      unicode: "héllo ☎",
+      bytes: new Uint8Array([0, 1, 254, 255]),
+      nested: { list: [1, [2, [3]], { deep: "yes" }] },
+      many: Array.from({ length: 20 }, (_, index) => index),
+    };
+    expect(decodeMessagePack(encodeMessagePack(value))).toEqual(value);
+  });
+
+  it("omits undefined map values like JSON does", () => {
+    expect(decodeMessagePack(encodeMessagePack({ type: "PING", extra: undefined }))).toEqual({ type: "PING" });
+  });
+
+  it("honours toJSON like the JSON codec", () => {
+    const sentAt = new Date("2026-01-02T03:04:05.000Z");
+    expect(decodeMessagePack(encodeMessagePack({ sentAt, when: { toJSON: () => "later" } }))).toEqual({
+      sentAt: "2026-01-02T03:04:05.000Z",
+      when: "later",
+    });
+  });
+
+  it("encodes every ArrayBuffer view as bin", () => {
+    const floats = new Float32Array([1.5]);
+    const decoded = decodeMessagePack(encodeMessagePack({ floats, view: new DataView(new Uint8Array([1, 2, 3]).buffer, 1) }));
+    expect(decoded).toEqual({ floats: new Uint8Array(floats.buffer), view: new Uint8Array([2, 3]) });
+  });
+
+  it("uses compact fixed-size encodings", () => {
+    expect(Array.from(encodeMessagePack({ a: 1 }))).toEqual([0x81, 0xa1, 0x61, 0x01]);
+    expect(Array.from(encodeMessagePack(-1))).toEqual([0xff]);
+  });
+
+  it("rejects truncated and trailing data", () => {
+    const encoded = encodeMessagePack({ type: "MSG", data: "payload" });
+    expect(() => decodeMessagePack(encoded.subarray(0, encoded.length - 2))).toThrow("Truncated");
+    expect(() => decodeMessagePack(new Uint8Array([...encoded, 0xc0]))).toThrow("trailing");
+  });
+
+  it("does not let a __proto__ key replace the prototype", () => {
+    const decoded = msgpackCodec.decode(encodeMessagePack(JSON.parse('{"__proto__":{"polluted":true}}'))) as Record<string, unknown>;
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.keys(decoded)).toEqual(["__proto__"]);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "bun:test";
+import { nodeCompressor, selectCompression } from "../../src/compression";
+
+describe("payload compression", () => {
+  it("picks the first offered algorithm this side accepts", () => {
+    expect(selectCompression(["gzip", "deflate"], ["deflate", "gzip"])).toBe("gzip");
+    expect(selectCompression(["brotli", "deflate"], ["deflate"])).toBe("deflate");
+    expect(selectCompression("gzip", ["deflate", "gzip"])).toBe("gzip");
+    expect(selectCompression(["gzip"], [])).toBeNull();
+    expect(selectCompression(undefined, ["deflate"])).toBeNull();
+  });
+
+  it("round-trips payloads with zlib", async () => {
+    const input = new TextEncoder().encode("log line\n".repeat(200));
+    for (const algorithm of ["deflate", "gzip"] as const) {
+      const compressed = await nodeCompressor.compress(algorithm, input);
+      expect(compressed.byteLength).toBeLessThan(input.byteLength);
+      expect(await nodeCompressor.decompress(algorithm, compressed, input.byteLength)).toEqual(input);
+    }
+  });
+
+  it("stops inflating once the output passes the limit", async () => {
+    const input = new Uint8Array(1024 * 1024);
+    for (const algorithm of ["deflate", "gzip"] as const) {
+      const compressed = await nodeCompressor.compress(algorithm, input);
+      expect(await nodeCompressor.decompress(algorithm, compressed, input.byteLength - 1)).toBeNull();
+      expect(await nodeCompressor.decompress(algorithm, compressed, input.byteLength)).toEqual(input);
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "bun:test";
+import { E2eSession, e2eAssociatedData, keyFingerprint } from "../../src/e2e";
+
+async function pair() {
+  const alice = new E2eSession("call-1");
+  const bob = new E2eSession("call-1");
+  const [aliceKey, bobKey] = await Promise.all([alice.publicKey(), bob.publicKey()]);
+  await alice.accept(bobKey);
+  await bob.accept(aliceKey);
+  return { alice, bob, aliceKey, bobKey };
+}
+
+describe("end-to-end sessions", () => {
+  it("seals payloads only the peer can open", async () => {
+    const { alice, bob, bobKey } = await pair();
+    const aad = e2eAssociatedData("call-1", "text", undefined);
+    const sealed = await alice.seal(new TextEncoder().encode("secret"), aad);
+
+    expect(new TextDecoder().decode(await bob.open(sealed, aad))).toBe("secret");
+    // Directional keys: a side cannot open its own payloads.
+    await expect(alice.open(sealed, aad)).rejects.toThrow();
+    expect(alice.peerFingerprint).toBe(await keyFingerprint(bobKey));
+    expect(await alice.established).toBe(true);
+  });
+
+  it("rejects tampered payloads and payloads moved to another stream", async () => {
+    const { alice, bob } = await pair();
+    const aad = e2eAssociatedData("call-1", "binary", "logs");
+    const sealed = await alice.seal(new Uint8Array([1, 2, 3]), aad);
+
+    const tampered = sealed.slice();
+    tampered[tampered.length - 1] ^= 1;
+    await expect(bob.open(tampered, aad)).rejects.toThrow();
+    await expect(bob.open(sealed, e2eAssociatedData("call-1", "binary", "control"))).rejects.toThrow();
+  });
+
+  it("refuses replayed and reordered payloads", async () => {
+    const { alice, bob } = await pair();
+    const aad = e2eAssociatedData("call-1", "text", undefined);
+    const first = await alice.seal(new TextEncoder().encode("one"), aad);
+    const second = await alice.seal(new TextEncoder().encode("two"), aad);
+
+    expect(new TextDecoder().decode(await bob.open(second, aad))).toBe("two");
+    await expect(bob.open(first, aad)).rejects.toThrow("Replayed");
+    await expect(bob.open(second, aad)).rejects.toThrow("Replayed");
+  });
+
+  it("refuses a second or malformed peer key", async () => {
+    const { alice, bobKey } = await pair();
+    await expect(alice.accept(bobKey)).rejects.toThrow("Unexpected end-to-end key");
+    await expect(new E2eSession("call-2").accept(new Uint8Array(5))).rejects.toThrow("Unexpected end-to-end key");
+  });
+});
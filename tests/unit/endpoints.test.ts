@@ -0,0 +1,71 @@
+import { describe, expect, it } from "bun:test";
+import { EndpointPool } from "../../src/endpoints";
+
+describe("EndpointPool", () => {
+  it("prefers the first healthy endpoint with the ordered strategy", () => {
+    const pool = new EndpointPool(["wss://a", "wss://b", "wss://c"]);
+    expect(pool.next()).toBe("wss://a");
+
+    pool.markFailure("wss://a");
+    expect(pool.next()).toBe("wss://b");
+
+    pool.markSuccess("wss://a");
+    expect(pool.next()).toBe("wss://a");
+  });
+
+  it("rotates through endpoints with the round-robin strategy", () => {
+    const pool = new EndpointPool(["wss://a", "wss://b", "wss://c"], { strategy: "round-robin" });
+    expect([pool.next(), pool.next(), pool.next(), pool.next()]).toEqual([
+      "wss://a",
+      "wss://b",
+      "wss://c",
+      "wss://a",
+    ]);
+  });
+
+  it("sticks to the last good endpoint with the sticky strategy", () => {
+    const pool = new EndpointPool(["wss://a", "wss://b", "wss://c"], { strategy: "sticky" });
+    pool.markFailure(pool.next());
+    const second = pool.next();
+    expect(second).toBe("wss://b");
+    pool.markSuccess(second);
+
+    expect(pool.next()).toBe("wss://b");
+    expect(pool.next()).toBe("wss://b");
+  });
+
+  it("only picks from configured endpoints with the random strategy", () => {
+    const urls = ["wss://a", "wss://b"];
+    const pool = new EndpointPool(urls, { strategy: "random" });
+    for (let i = 0; i < 10; i += 1) {
+      expect(urls).toContain(pool.next());
+    }
+  });
+
+  it("skips excluded endpoints and falls back to the soonest recovering one", () => {
+    const pool = new EndpointPool(["wss://a", "wss://b"], { backoffMs: 1_000 });
+    pool.markFailure("wss://a");
+    pool.markFailure("wss://a");
+    pool.markFailure("wss://b");
+
+    expect(pool.next(new Set(["wss://b"]))).toBe("wss://a");
+    expect(pool.next()).toBe("wss://b");
+  });
+
+  it("doubles per-endpoint backoff up to the configured maximum", () => {
+    const pool = new EndpointPool(["wss://a"], { backoffMs: 100, maxBackoffMs: 250 });
+    pool.markFailure("wss://a");
+    const [first] = pool.snapshot();
+    expect(first.failures).toBe(1);
+    expect(first.retryAt - (first.lastFailureAt ?? 0)).toBe(100);
+
+    pool.markFailure("wss://a");
+    pool.markFailure("wss://a");
+    const [third] = pool.snapshot();
+    expect(third.retryAt - (third.lastFailureAt ?? 0)).toBe(250);
+  });
+
+  it("rejects an empty endpoint list", () => {
+    expect(() => new EndpointPool([])).toThrow("At least one SystemX endpoint URL is required");
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "bun:test";
+import {
+  CallStateError,
+  DialBusyError,
+  DialTimeoutError,
+  DisconnectedError,
+  ProtocolError,
+  RegistrationError,
+  TrimphoneError,
+} from "../../src/errors";
+
+describe("Trimphone errors", () => {
+  it("share the TrimphoneError base and expose their class name", () => {
+    const error = new DialBusyError("svc@example.com", "offline");
+    expect(error).toBeInstanceOf(TrimphoneError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("DialBusyError");
+    expect(error.address).toBe("svc@example.com");
+  });
+
+  it("marks transient BUSY reasons as retryable", () => {
+    expect(new DialBusyError("a@b.io", "already_in_call").retryable).toBe(true);
+    expect(new DialBusyError("a@b.io", "offline").retryable).toBe(true);
+    expect(new DialBusyError("a@b.io", "dnd").retryable).toBe(false);
+    expect(new DialBusyError("a@b.io", "no_such_address").retryable).toBe(false);
+  });
+
+  it("carries retryability and context for other failures", () => {
+    expect(new DialTimeoutError("a@b.io", 100).retryable).toBe(true);
+    expect(new DisconnectedError("Disconnected", { callId: "c1" })).toMatchObject({ retryable: true, callId: "c1" });
+    expect(new RegistrationError("a@b.io", "address_in_use")).toMatchObject({
+      retryable: false,
+      reason: "address_in_use",
+      message: "Registration failed: address_in_use",
+    });
+    expect(new ProtocolError("Malformed RING message", { type: "RING" }).frame).toEqual({ type: "RING" });
+    expect(new CallStateError("Call is not ringing", "c2").callId).toBe("c2");
+  });
+});
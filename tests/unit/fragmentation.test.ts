@@ -0,0 +1,56 @@
+import { describe, expect, it } from "bun:test";
+import { FragmentAssembler, splitPayload } from "../../src/fragmentation";
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe("message fragmentation", () => {
+  it("splits payloads at the frame size", () => {
+    const parts = splitPayload(bytes(1, 2, 3, 4, 5), 2);
+    expect(parts.map((part) => Array.from(part))).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it("reassembles fragments that arrive out of order", () => {
+    const assembler = new FragmentAssembler(100);
+    expect(assembler.add({ id: "m1", index: 1, count: 2, data: bytes(3, 4) })).toEqual({ status: "incomplete" });
+    expect(assembler.add({ id: "m1", index: 0, count: 2, data: bytes(1, 2) })).toEqual({
+      status: "complete",
+      data: bytes(1, 2, 3, 4),
+    });
+  });
+
+  it("rejects messages over the size limit and ignores their remaining fragments", () => {
+    const assembler = new FragmentAssembler(3);
+    expect(assembler.add({ id: "m1", index: 0, count: 3, data: bytes(1, 2) })).toEqual({ status: "incomplete" });
+    expect(assembler.add({ id: "m1", index: 1, count: 3, data: bytes(3, 4) })).toEqual({ status: "too_large", size: 4 });
+    expect(assembler.add({ id: "m1", index: 2, count: 3, data: bytes(5) })).toEqual({ status: "incomplete" });
+  });
+
+  it("flags inconsistent fragment headers as invalid", () => {
+    const assembler = new FragmentAssembler(100);
+    expect(assembler.add({ id: "m1", index: 2, count: 2, data: bytes(1) }).status).toBe("invalid");
+    assembler.add({ id: "m2", index: 0, count: 2, data: bytes(1) });
+    expect(assembler.add({ id: "m2", index: 1, count: 3, data: bytes(2) }).status).toBe("invalid");
+  });
+  it("rejects fragment counts no message within the limit could have", () => {
+    const assembler = new FragmentAssembler(4);
+    expect(assembler.add({ id: "m1", index: 0, count: 5, data: bytes(1) }).status).toBe("invalid");
+    expect(assembler.add({ id: "m2", index: 0, count: 2 ** 32, data: bytes(1) }).status).toBe("invalid");
+  });
+
+  it("bounds the bytes buffered across a call's partial messages", () => {
+    const assembler = new FragmentAssembler(4);
+    expect(assembler.add({ id: "m1", index: 0, count: 2, data: bytes(1, 2, 3) })).toEqual({ status: "incomplete" });
+    expect(assembler.add({ id: "m2", index: 0, count: 2, data: bytes(4, 5) })).toEqual({ status: "too_large", size: 2 });
+    expect(assembler.add({ id: "m1", index: 1, count: 2, data: bytes(6) })).toEqual({ status: "complete", data: bytes(1, 2, 3, 6) });
+    expect(assembler.add({ id: "m3", index: 0, count: 2, data: bytes(7, 8) })).toEqual({ status: "incomplete" });
+  });
+
+  it("expires partial messages whose remaining fragments do not arrive in time", async () => {
+    const assembler = new FragmentAssembler(4, 10);
+    assembler.add({ id: "m1", index: 0, count: 2, data: bytes(1, 2, 3) });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(assembler.add({ id: "m2", index: 0, count: 2, data: bytes(4, 5) })).toEqual({ status: "incomplete" });
+    expect(assembler.add({ id: "m1", index: 1, count: 2, data: bytes(6) })).toEqual({ status: "incomplete" });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MemoryHistoryStore, type CallDetailRecord } from "../../src/history";
+import { JsonlHistoryStore } from "../../src/jsonlHistoryStore";
+
+function record(overrides: Partial<CallDetailRecord>): CallDetailRecord {
+  return {
+    id: "call",
+    direction: "outbound",
+    from: "me@example.com",
+    to: "service@example.com",
+    startedAt: 0,
+    answeredAt: null,
+    endedAt: 0,
+    durationMs: 0,
+    initiator: "local",
+    bytesIn: 0,
+    bytesOut: 0,
+    ...overrides,
+  };
+}
+
+describe("MemoryHistoryStore", () => {
+  it("keeps only the most recent records", async () => {
+    const store = new MemoryHistoryStore({ maxRecords: 2 });
+    store.append(record({ id: "a", endedAt: 1 }));
+    store.append(record({ id: "b", endedAt: 2 }));
+    store.append(record({ id: "c", endedAt: 3 }));
+
+    expect(store.size).toBe(2);
+    expect((await store.query()).map((entry) => entry.id)).toEqual(["c", "b"]);
+  });
+
+  it("filters by address, direction and end time", async () => {
+    const store = new MemoryHistoryStore();
+    store.append(record({ id: "old", endedAt: 100 }));
+    store.append(record({ id: "inbound", direction: "inbound", from: "alice@example.com", to: undefined, endedAt: 200 }));
+    store.append(record({ id: "other", to: "other@example.com", endedAt: 300 }));
+
+    expect((await store.query({ address: "service@example.com" })).map((entry) => entry.id)).toEqual(["old"]);
+    expect((await store.query({ direction: "inbound" })).map((entry) => entry.id)).toEqual(["inbound"]);
+    expect((await store.query({ since: new Date(150) })).map((entry) => entry.id)).toEqual(["other", "inbound"]);
+    expect((await store.query({ limit: 1 })).map((entry) => entry.id)).toEqual(["other"]);
+  });
+});
+
+describe("JsonlHistoryStore", () => {
+  it("appends records as JSON lines and reads them back", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "trimphone-history-"));
+    try {
+      const path = join(dir, "calls.jsonl");
+      const store = new JsonlHistoryStore(path);
+      expect(await store.query()).toEqual([]);
+
+      void store.append(record({ id: "a", endedAt: 1 }));
+      await store.append(record({ id: "b", endedAt: 2, direction: "inbound" }));
+
+      expect((await store.query()).map((entry) => entry.id)).toEqual(["b", "a"]);
+      expect((await store.query({ direction: "outbound" })).map((entry) => entry.id)).toEqual(["a"]);
+
+      await store.clear();
+      expect(await store.query()).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
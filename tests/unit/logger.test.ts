@@ -0,0 +1,34 @@
+import { describe, expect, it } from "bun:test";
+import { createConsoleLogger, redactFrame } from "../../src/logger";
+
+describe("redactFrame", () => {
+  it("replaces binary MSG payloads with a size marker", () => {
+    const frame = { type: "MSG", call_id: "c1", data: Buffer.from("secret!!").toString("base64"), content_type: "binary" as const };
+    expect(redactFrame(frame)).toEqual({ ...frame, data: "[binary 8 bytes]" });
+  });
+
+  it("leaves other frames untouched", () => {
+    const text = { type: "MSG", call_id: "c1", data: "hello", content_type: "text" as const };
+    const dial = { type: "DIAL" as const, to: "a@b.io" };
+    expect(redactFrame(text)).toBe(text);
+    expect(redactFrame(dial)).toBe(dial);
+  });
+});
+
+describe("createConsoleLogger", () => {
+  it("drops records below the minimum level", () => {
+    const calls: string[] = [];
+    const original = { debug: console.debug, warn: console.warn };
+    console.debug = (message: string) => calls.push(`debug:${message}`);
+    console.warn = (message: string) => calls.push(`warn:${message}`);
+    try {
+      const logger = createConsoleLogger("warn");
+      logger.debug("hidden");
+      logger.warn("shown", { callId: "c1" });
+    } finally {
+      console.debug = original.debug;
+      console.warn = original.warn;
+    }
+    expect(calls).toEqual(["warn:[trimphone] shown"]);
+  });
+});
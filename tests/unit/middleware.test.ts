@@ -0,0 +1,53 @@
+import { describe, expect, it } from "bun:test";
+import { composeMiddleware, type DialContext, type Middleware } from "../../src/middleware";
+
+function dialContext(): DialContext {
+  return { kind: "dial", to: "service@example.com", metadata: {} };
+}
+
+describe("composeMiddleware", () => {
+  it("runs middleware in order around the terminal handler", async () => {
+    const order: string[] = [];
+    const stack: Middleware[] = [
+      async (_ctx, next) => {
+        order.push("a:before");
+        await next();
+        order.push("a:after");
+      },
+      async (_ctx, next) => {
+        order.push("b:before");
+        await next();
+        order.push("b:after");
+      },
+    ];
+
+    await composeMiddleware<DialContext>(stack, () => {
+      order.push("terminal");
+    })(dialContext());
+
+    expect(order).toEqual(["a:before", "b:before", "terminal", "b:after", "a:after"]);
+  });
+
+  it("skips the terminal handler when next is not called", async () => {
+    let reached = false;
+    await composeMiddleware<DialContext>([() => {}], () => {
+      reached = true;
+    })(dialContext());
+
+    expect(reached).toBe(false);
+  });
+
+  it("rejects when next is called more than once", async () => {
+    const run = composeMiddleware<DialContext>(
+      [
+        async (_ctx, next) => {
+          await next();
+          await next();
+        },
+      ],
+      () => {},
+    );
+
+    await expect(run(dialContext())).rejects.toThrow("next() called multiple times");
+  });
+});
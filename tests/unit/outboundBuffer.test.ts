@@ -0,0 +1,51 @@
+import { describe, expect, it } from "bun:test";
+import { OutboundBuffer, type OutboundDropReason } from "../../src/outboundBuffer";
+import { OutboundBufferFullError } from "../../src/errors";
+
+function createBuffer(options: ConstructorParameters<typeof OutboundBuffer<string>>[0]) {
+  const dropped: Array<[string, OutboundDropReason]> = [];
+  const buffer = new OutboundBuffer<string>(options, (frame, reason) => dropped.push([frame, reason]));
+  return { buffer, dropped };
+}
+
+describe("OutboundBuffer", () => {
+  it("drains frames in insertion order", () => {
+    const { buffer } = createBuffer({});
+    buffer.push("a");
+    buffer.push("b");
+    expect(buffer.drain()).toEqual(["a", "b"]);
+    expect(buffer.size).toBe(0);
+  });
+
+  it("drops the oldest frame on overflow by default", () => {
+    const { buffer, dropped } = createBuffer({ maxFrames: 2 });
+    buffer.push("a");
+    buffer.push("b");
+    buffer.push("c");
+    expect(dropped).toEqual([["a", "overflow"]]);
+    expect(buffer.drain()).toEqual(["b", "c"]);
+  });
+
+  it("drops the newest frame with the drop-newest policy", () => {
+    const { buffer, dropped } = createBuffer({ maxFrames: 1, overflow: "drop-newest" });
+    buffer.push("a");
+    buffer.push("b");
+    expect(dropped).toEqual([["b", "overflow"]]);
+    expect(buffer.drain()).toEqual(["a"]);
+  });
+
+  it("throws with the error policy", () => {
+    const { buffer } = createBuffer({ maxFrames: 1, overflow: "error" });
+    buffer.push("a");
+    expect(() => buffer.push("b")).toThrow(OutboundBufferFullError);
+  });
+
+  it("discards frames older than maxAgeMs", async () => {
+    const { buffer, dropped } = createBuffer({ maxAgeMs: 5 });
+    buffer.push("stale");
+    await new Promise((resolve) => setTimeout(resolve, 15));
+    buffer.push("fresh");
+    expect(buffer.drain()).toEqual(["fresh"]);
+    expect(dropped).toEqual([["stale", "expired"]]);
+  });
+});
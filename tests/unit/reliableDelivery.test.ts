@@ -0,0 +1,71 @@
+import { describe, expect, it } from "bun:test";
+import { MAX_UNACKED_BYTES, MAX_UNACKED_FRAMES, ReliableChannel } from "../../src/reliableDelivery";
+
+interface Frame {
+  data: string;
+  seq?: number;
+}
+
+describe("reliable delivery", () => {
+  it("numbers frames and keeps them until acknowledged", () => {
+    const channel = new ReliableChannel<Frame>();
+    expect(channel.stamp({ data: "a" })).toEqual({ data: "a", seq: 1 });
+    expect(channel.stamp({ data: "b" })).toEqual({ data: "b", seq: 2 });
+    expect(channel.stamp({ data: "c" })).toEqual({ data: "c", seq: 3 });
+    expect(channel.lastSeq).toBe(3);
+
+    channel.acknowledge(2);
+    expect(channel.unackedFrames()).toEqual([{ data: "c", seq: 3 }]);
+    channel.acknowledge(1);
+    expect(channel.unackedCount).toBe(1);
+  });
+
+  it("limits the frames and bytes kept unacknowledged", () => {
+    const channel = new ReliableChannel<Frame>();
+    channel.stamp({ data: "big" }, MAX_UNACKED_BYTES - 10);
+    expect(channel.hasRoomFor(10)).toBe(true);
+    expect(channel.hasRoomFor(11)).toBe(false);
+    channel.acknowledge(1);
+    expect(channel.hasRoomFor(11)).toBe(true);
+
+    for (let index = 0; index < MAX_UNACKED_FRAMES; index += 1) {
+      channel.stamp({ data: "small" }, 1);
+    }
+    expect(channel.hasRoomFor(0)).toBe(false);
+  });
+
+  it("resolves waiters once their frame is covered by a cumulative ack", async () => {
+    const channel = new ReliableChannel<Frame>();
+    channel.stamp({ data: "a" });
+    channel.stamp({ data: "b" });
+    const settled: number[] = [];
+    void channel.whenAcked(1).then(() => settled.push(1));
+    void channel.whenAcked(2).then(() => settled.push(2));
+
+    channel.acknowledge(1);
+    await Promise.resolve();
+    expect(settled).toEqual([1]);
+    channel.acknowledge(5);
+    await Promise.resolve();
+    expect(settled).toEqual([1, 2]);
+    await channel.whenAcked(2);
+  });
+
+  it("rejects waiters when the channel fails", async () => {
+    const channel = new ReliableChannel<Frame>();
+    channel.stamp({ data: "a" });
+    const pending = channel.whenAcked(1);
+    channel.fail(new Error("hung up"));
+    await expect(pending).rejects.toThrow("hung up");
+    await expect(channel.whenAcked(1)).rejects.toThrow("hung up");
+  });
+
+  it("classifies inbound sequence numbers", () => {
+    const channel = new ReliableChannel<Frame>();
+    expect(channel.receive(1)).toBe("new");
+    expect(channel.receive(1)).toBe("duplicate");
+    expect(channel.receive(3)).toBe("gap");
+    expect(channel.receive(2)).toBe("new");
+    expect(channel.receivedSeq).toBe(2);
+  });
+});
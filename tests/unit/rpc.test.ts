@@ -0,0 +1,162 @@
+import { describe, expect, it } from "bun:test";
+import { Call, type CallController } from "../../src/call";
+import { CallStateError, RpcCancelledError, RpcError, RpcTimeoutError } from "../../src/errors";
+import { RPC_ERROR_CODES, RpcServer, type RpcContext, type RpcHandlers } from "../../src/rpc";
+
+/** Two connected calls whose messages reach each other as JSON, like over the wire. */
+function connectedPair(failSend?: (callId: string, data: unknown) => Error | null) {
+  const calls: Record<string, Call> = {};
+  const controller: CallController = {
+    answer() {},
+    hangup() {},
+    reject() {},
+    forward() {},
+    send(callId, payload) {
+      const failure = failSend?.(callId, payload.data);
+      if (failure) {
+        return Promise.reject(failure);
+      }
+      const peer = calls[callId === "client" ? "server" : "client"];
+      const data = JSON.parse(JSON.stringify(payload.data));
+      setTimeout(() => peer.receiveMessage(data), 0);
+      return Promise.resolve();
+    },
+  };
+  calls.client = new Call({ id: "client", direction: "outbound", controller });
+  calls.server = new Call({ id: "server", direction: "outbound", controller });
+  calls.client.setConnected();
+  calls.server.setConnected();
+  return { client: calls.client, server: calls.server };
+}
+
+const tick = (ms = 5) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("JSON-RPC over calls", () => {
+  it("calls remote methods through the proxy", async () => {
+    const { client, server } = connectedPair();
+    const handlers = {
+      add: ([a, b]: [number, number]) => a + b,
+      greet: async ({ name }: { name: string }) => `hello ${name}`,
+    } satisfies RpcHandlers;
+    new RpcServer(server, handlers);
+
+    const api = client.rpc<typeof handlers>();
+    expect(await api.add([2, 3])).toBe(5);
+    expect(await api.greet({ name: "ada" })).toBe("hello ada");
+    expect(await api.request("add", [1, 1])).toBe(2);
+  });
+
+  it("rejects with typed errors", async () => {
+    const { client, server } = connectedPair();
+    new RpcServer(server, {
+      fail: () => {
+        throw new RpcError(4001, "Quota exceeded", { limit: 10 });
+      },
+      crash: () => {
+        throw new Error("boom");
+      },
+    });
+
+    const api = client.rpc();
+    await expect(api.fail({})).rejects.toMatchObject({ code: 4001, message: "Quota exceeded", data: { limit: 10 }, callId: "client" });
+    await expect(api.crash({})).rejects.toMatchObject({ code: RPC_ERROR_CODES.internalError, message: "boom" });
+    const missing = await api.toString({}).catch((error: unknown) => error);
+    expect(missing).toBeInstanceOf(RpcError);
+    expect((missing as RpcError).code).toBe(RPC_ERROR_CODES.methodNotFound);
+  });
+
+  it("streams partial results and notifications", async () => {
+    const { client, server } = connectedPair();
+    const logged: unknown[] = [];
+    new RpcServer(server, {
+      build: async (_params: unknown, context: RpcContext) => {
+        for (const step of [1, 2, 3]) {
+          context.progress({ step });
+          await tick(1);
+        }
+        context.notify("built", { artifact: "app.tar" });
+        return "done";
+      },
+      log: (params: unknown) => {
+        logged.push(params);
+      },
+    });
+
+    const api = client.rpc();
+    const built: unknown[] = [];
+    api.onNotification("built", (params) => built.push(params));
+    const partials: unknown[] = [];
+    expect(await api.build({}, { onPartial: (value) => partials.push(value) })).toBe("done");
+    expect(partials).toEqual([{ step: 1 }, { step: 2 }, { step: 3 }]);
+
+    api.notify("log", ["started"]);
+    await tick();
+    expect(built).toEqual([{ artifact: "app.tar" }]);
+    expect(logged).toEqual([["started"]]);
+  });
+
+  it("times out and cancels requests, aborting the handler", async () => {
+    const { client, server } = connectedPair();
+    const aborted: string[] = [];
+    new RpcServer(server, {
+      slow: (_params: unknown, context: RpcContext) =>
+        new Promise((resolve) => {
+          context.signal.addEventListener("abort", () => {
+            aborted.push(String(context.id));
+            resolve(null);
+          });
+        }),
+    });
+
+    const api = client.rpc({ timeoutMs: 20 });
+    await expect(api.slow({})).rejects.toBeInstanceOf(RpcTimeoutError);
+
+    const controller = new AbortController();
+    const cancelled = api.slow({}, { signal: controller.signal, timeoutMs: 0 });
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(RpcCancelledError);
+    await tick();
+    expect(aborted).toEqual(["1", "2"]);
+  });
+
+  it("rejects pending requests when the call ends", async () => {
+    const { client } = connectedPair();
+    const pending = client.rpc().wait({});
+    client.receiveHangup("remote");
+    await expect(pending).rejects.toBeInstanceOf(CallStateError);
+  });
+
+  it("answers batches with an array of responses", async () => {
+    const { client, server } = connectedPair();
+    new RpcServer(server, { double: ([n]: [number]) => n * 2 });
+    const replies: unknown[] = [];
+    client.on("message", (message) => replies.push(message));
+
+    client.send([
+      { jsonrpc: "2.0", id: "a", method: "double", params: [2] },
+      { jsonrpc: "2.0", method: "double", params: [3] },
+      { jsonrpc: "2.0", id: "b", method: "missing" },
+    ]);
+    await tick(20);
+    expect(replies).toEqual([
+      [
+        { jsonrpc: "2.0", id: "a", result: 4 },
+        { jsonrpc: "2.0", id: "b", error: { code: RPC_ERROR_CODES.methodNotFound, message: "Method not found: missing" } },
+      ],
+    ]);
+  });
+
+  it("rejects requests and reports responses whose send failed", async () => {
+    const { client, server } = connectedPair((callId, data) =>
+      callId === "client" && (data as { method?: string }).method === "echo" ? null : new Error("socket gone"),
+    );
+    new RpcServer(server, { echo: (params: unknown) => params, ping: () => "pong" });
+    const serverErrors: Error[] = [];
+    server.on("error", (error) => serverErrors.push(error));
+
+    await expect(client.rpc().ping({})).rejects.toThrow("socket gone");
+    const echoed = client.rpc({ timeoutMs: 20 }).echo(["hi"]);
+    await expect(echoed).rejects.toBeInstanceOf(RpcTimeoutError);
+    expect(serverErrors.map((error) => error.message)).toEqual(["socket gone"]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "bun:test";
+import { TrafficCounter, WireCounter, payloadSize, utf8ByteLength } from "../../src/stats";
+
+describe("TrafficCounter", () => {
+  it("counts messages and bytes per direction and content type", () => {
+    const counter = new TrafficCounter();
+    counter.record("sent", "text", 5);
+    counter.record("sent", "text", 3);
+    counter.record("received", "binary", 10);
+
+    const snapshot = counter.snapshot();
+    expect(snapshot.sent.text).toEqual({ messages: 2, bytes: 8 });
+    expect(snapshot.received.binary).toEqual({ messages: 1, bytes: 10 });
+    expect(snapshot.sent.json).toEqual({ messages: 0, bytes: 0 });
+  });
+
+  it("returns snapshots that do not change afterwards", () => {
+    const counter = new TrafficCounter();
+    const before = counter.snapshot();
+    counter.record("sent", "json", 2);
+    expect(before.sent.json.messages).toBe(0);
+  });
+});
+
+describe("WireCounter", () => {
+  it("counts frames and encoded bytes per direction", () => {
+    const counter = new WireCounter();
+    counter.record("sent", 40);
+    counter.record("sent", 12);
+    counter.record("received", 7);
+
+    expect(counter.snapshot()).toEqual({ sent: { frames: 2, bytes: 52 }, received: { frames: 1, bytes: 7 } });
+  });
+});
+
+describe("payloadSize", () => {
+  it("measures strings as UTF-8, binary by length and objects as JSON", () => {
+    expect(payloadSize("héllo")).toBe(6);
+    expect(payloadSize(new Uint8Array(4))).toBe(4);
+    expect(payloadSize(new ArrayBuffer(3))).toBe(3);
+    expect(payloadSize({ a: 1 })).toBe(7);
+    expect(payloadSize(undefined)).toBe(0);
+  });
+
+  it("counts UTF-8 bytes like TextEncoder without encoding", () => {
+    for (const text of ["", "ascii", "héllo", "€uro", "emoji 🎉", "lone \ud800 surrogate"]) {
+      expect(utf8ByteLength(text)).toBe(new TextEncoder().encode(text).byteLength);
+    }
+  });
+});
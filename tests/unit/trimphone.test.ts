@@ -1,8 +1,26 @@
 import { describe, expect, it, beforeEach } from "bun:test";
 import { EventEmitter } from "node:events";
+import { gzipSync, inflateSync } from "node:zlib";
 import { Trimphone } from "../../src/trimphone";
 import { MemoryProcess } from "../../src/process/memoryProcess";
+import {
+  CallStateError,
+  DialAbortedError,
+  DialBusyError,
+  DialTimeoutError,
+  DisconnectedError,
+  MessageTooLargeError,
+  ProtocolError,
+  RegistrationError,
+  TrimphoneError,
+  UndeliveredMessageError,
+} from "../../src/errors";
+import { CLIENT_FEATURES, PEER_FEATURES, PROTOCOL_VERSION } from "../../src/capabilities";
+import { decodeMessagePack, encodeMessagePack, msgpackCodec } from "../../src/msgpack";
+import { decodeBinaryFrame, encodeBinaryFrame } from "../../src/binaryFrame";
+import { E2E_AUTH_FAILED, E2E_SCHEME, E2eSession, e2eAssociatedData, keyFingerprint } from "../../src/e2e";
 import type { Transport, TransportConnectOptions } from "../../src/transport";
+import type { FrameTrace, LogContext } from "../../src/logger";
 
 class MockTransport extends EventEmitter implements Transport {
   public state: import("../../src/transport").TransportState = "idle";
@@ -54,6 +72,9 @@ class MockTransport extends EventEmitter implements Transport {
   }
 }
 
+/** Optional features advertised by the simulated exchange in tests that rely on them. */
+const EXCHANGE_FEATURES = ["resume", "presence"];
+
 function nextTick(): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, 0));
 }
@@ -474,4 +495,1922 @@ describe("Trimphone core", () => {
       "reconnect@example.com",
     ]);
   });
+
+  it("fails over to the next endpoint when the primary cannot be reached", async () => {
+    const primary = new MockTransport();
+    const backup = new MockTransport();
+    const transports = [primary, backup];
+    let connectIndex = 0;
+
+    phone = new Trimphone(["wss://primary", "wss://backup"], {
+      transportFactory: () => transports[connectIndex++],
+      heartbeatIntervalMs: 0,
+    });
+    phone.on("error", () => {});
+
+    const registerPromise = phone.register("failover@example.com");
+    primary.fail(new Error("connection refused"));
+    await nextTick();
+
+    expect(backup.connectCalls).toEqual([{ url: "wss://backup" }]);
+    backup.open();
+    await nextTick();
+    backup.receive({
+      type: "REGISTERED",
+      address: "failover@example.com",
+      session_id: "session-failover",
+    });
+
+    await registerPromise;
+    expect(phone.endpoint).toBe("wss://backup");
+    expect(phone.getEndpointHealth()[0].failures).toBe(1);
+  });
+
+  it("rotates endpoints after a heartbeat timeout and emits failover", async () => {
+    const primary = new MockTransport();
+    const backup = new MockTransport();
+    const transports = [primary, backup];
+    let connectIndex = 0;
+
+    phone = new Trimphone(["wss://primary", "wss://backup"], {
+      transportFactory: () => transports[Math.min(connectIndex++, transports.length - 1)],
+      heartbeatIntervalMs: 5,
+      heartbeatTimeoutMs: 10,
+      reconnectBackoffMs: 5,
+    });
+
+    const failovers: Array<{ from: string; to: string }> = [];
+    phone.on("failover", (details) => failovers.push(details));
+
+    const registerPromise = phone.register("rotate@example.com");
+    primary.open();
+    await nextTick();
+    primary.receive({
+      type: "REGISTERED",
+      address: "rotate@example.com",
+      session_id: "session-rotate",
+    });
+    await registerPromise;
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(primary.closed?.reason).toBe("heartbeat_timeout");
+    expect(backup.connectCalls).toEqual([{ url: "wss://backup" }]);
+
+    backup.open();
+    await nextTick();
+
+    expect(failovers).toEqual([{ from: "wss://primary", to: "wss://backup" }]);
+    expect(backup.getMessagesOfType("REGISTER")).toHaveLength(1);
+    phone.close();
+  });
+
+  it("rejects a dial with DialTimeoutError when the exchange never answers", async () => {
+    const callPromise = phone.dial("slow@example.com", { timeoutMs: 10 });
+    transport.open();
+
+    await expect(callPromise).rejects.toBeInstanceOf(DialTimeoutError);
+  });
+
+  it("cancels a ringing dial through an AbortSignal", async () => {
+    const controller = new AbortController();
+    const callPromise = phone.dial("ringing@example.com", { signal: controller.signal });
+    transport.open();
+    await nextTick();
+
+    expect(transport.getMessagesOfType("DIAL")).toHaveLength(1);
+    controller.abort();
+
+    await expect(callPromise).rejects.toBeInstanceOf(DialAbortedError);
+  });
+
+  it("hangs up a late CONNECTED for an abandoned dial", async () => {
+    const controller = new AbortController();
+    const abandoned = phone.dial("late@example.com", { signal: controller.signal });
+    transport.open();
+    await nextTick();
+    controller.abort();
+    await expect(abandoned).rejects.toBeInstanceOf(DialAbortedError);
+    const [{ dial_id: abandonedId }] = transport.getMessagesOfType("DIAL");
+
+    const nextCall = phone.dial("late@example.com");
+    await nextTick();
+
+    transport.receive({
+      type: "CONNECTED",
+      call_id: "call-late",
+      to: "late@example.com",
+      dial_id: abandonedId,
+    });
+
+    const hangups = transport.getMessagesOfType("HANGUP");
+    expect(hangups[hangups.length - 1]).toMatchObject({ call_id: "call-late", reason: "cancelled" });
+
+    transport.receive({
+      type: "CONNECTED",
+      call_id: "call-fresh",
+      to: "late@example.com",
+    });
+
+    const call = await nextCall;
+    expect(call.id).toBe("call-fresh");
+  });
+
+  it("does not let an abandoned dial claim a later dial's CONNECTED without dial_id", async () => {
+    const abandoned = phone.dial("late@example.com", { timeoutMs: 5 });
+    transport.open();
+    await expect(abandoned).rejects.toBeInstanceOf(DialTimeoutError);
+
+    const nextCall = phone.dial("late@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "call-next", to: "late@example.com" });
+
+    const call = await nextCall;
+    expect(call.id).toBe("call-next");
+    expect(transport.getMessagesOfType("HANGUP")).toHaveLength(0);
+  });
+
+  it("matches concurrent dials to the same address by echoed dial_id", async () => {
+    const first = phone.dial("parallel@example.com", { metadata: { job: 1 } });
+    transport.open();
+    await nextTick();
+    const second = phone.dial("parallel@example.com", { metadata: { job: 2 } });
+    await nextTick();
+
+    const dials = transport.getMessagesOfType("DIAL");
+    expect(dials).toHaveLength(2);
+    const [firstId, secondId] = dials.map((dial) => dial.dial_id as string);
+    expect(firstId).not.toBe(secondId);
+
+    transport.receive({
+      type: "CONNECTED",
+      call_id: "call-second",
+      to: "parallel@example.com",
+      dial_id: secondId,
+    });
+    transport.receive({
+      type: "BUSY",
+      to: "parallel@example.com",
+      reason: "already_in_call",
+      dial_id: firstId,
+    });
+
+    const call = await second;
+    expect(call.id).toBe("call-second");
+    await expect(first).rejects.toThrow("Call failed: already_in_call");
+  });
+
+  it("suspends calls on disconnect and resumes them after re-registering", async () => {
+    const first = new MockTransport();
+    const second = new MockTransport();
+    const transports = [first, second];
+    let connectIndex = 0;
+
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transports[Math.min(connectIndex++, transports.length - 1)],
+      heartbeatIntervalMs: 0,
+      reconnectBackoffMs: 5,
+      resumeGracePeriodMs: 1_000,
+    });
+
+    const registerPromise = phone.register("resume@example.com");
+    first.open();
+    await nextTick();
+    first.receive({ type: "REGISTERED", address: "resume@example.com", session_id: "session-old" });
+    await registerPromise;
+
+    const callPromise = phone.dial("shell@example.com");
+    await nextTick();
+    first.receive({ type: "CONNECTED", call_id: "call-resume", to: "shell@example.com" });
+    const call = await callPromise;
+
+    const events: string[] = [];
+    call.on("suspended", () => events.push("suspended"));
+    call.on("resumed", () => events.push("resumed"));
+    call.on("hangup", (reason) => events.push(`hangup:${reason}`));
+
+    first.emit("close", 1006, "network");
+    expect(call.isSuspended).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    second.open();
+    await nextTick();
+
+    const registers = second.getMessagesOfType("REGISTER");
+    expect(registers[registers.length - 1]).toMatchObject({ session_id: "session-old" });
+
+    second.receive({ type: "REGISTERED", address: "resume@example.com", session_id: "session-new" });
+    expect(second.getMessagesOfType("RESUME")).toEqual([
+      { type: "RESUME", session_id: "session-old", call_ids: ["call-resume"] },
+    ]);
+
+    second.receive({ type: "RESUMED", call_ids: ["call-resume"] });
+
+    expect(events).toEqual(["suspended", "resumed"]);
+    expect(call.isActive).toBe(true);
+    phone.close();
+  });
+
+  it("hangs up suspended calls when the resume grace period expires", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      reconnectBackoffMs: 1_000,
+      resumeGracePeriodMs: 10,
+    });
+
+    const registerPromise = phone.register("grace@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "grace@example.com", session_id: "session-grace" });
+    await registerPromise;
+
+    const callPromise = phone.dial("shell@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "call-grace", to: "shell@example.com" });
+    const call = await callPromise;
+
+    const hangup = new Promise<string | undefined>((resolve) => call.once("hangup", resolve));
+    transport.emit("close", 1006, "network");
+
+    await expect(hangup).resolves.toBe("resume_timeout");
+    phone.close();
+  });
+
+  it("buffers call messages while reconnecting and flushes them once resumed", async () => {
+    const first = new MockTransport();
+    const second = new MockTransport();
+    const transports = [first, second];
+    let connectIndex = 0;
+
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transports[Math.min(connectIndex++, transports.length - 1)],
+      heartbeatIntervalMs: 0,
+      reconnectBackoffMs: 5,
+      resumeGracePeriodMs: 1_000,
+      outboundBuffer: { maxFrames: 10 },
+    });
+
+    const registerPromise = phone.register("buffer@example.com");
+    first.open();
+    await nextTick();
+    first.receive({ type: "REGISTERED", address: "buffer@example.com", session_id: "session-buffer" });
+    await registerPromise;
+
+    const callPromise = phone.dial("shell@example.com");
+    await nextTick();
+    first.receive({ type: "CONNECTED", call_id: "call-buffer", to: "shell@example.com" });
+    const call = await callPromise;
+
+    first.emit("close", 1006, "network");
+    call.send("one");
+    call.send("two");
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    second.open();
+    await nextTick();
+    second.receive({ type: "REGISTERED", address: "buffer@example.com", session_id: "session-buffer-2" });
+    expect(second.getMessagesOfType("MSG")).toHaveLength(0);
+
+    second.receive({ type: "RESUMED", call_ids: ["call-buffer"] });
+    expect(second.getMessagesOfType("MSG").map((msg) => msg.data)).toEqual(["one", "two"]);
+    phone.close();
+  });
+
+  it("rejects sends while disconnected without an outbound buffer", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      reconnectBackoffMs: 1_000,
+      resumeGracePeriodMs: 1_000,
+    });
+
+    const registerPromise = phone.register("nobuffer@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "nobuffer@example.com", session_id: "session-nobuffer" });
+    await registerPromise;
+
+    const callPromise = phone.dial("shell@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "call-nobuffer", to: "shell@example.com" });
+    const call = await callPromise;
+
+    transport.emit("close", 1006, "network");
+    await expect(call.send("lost")).rejects.toThrow("Cannot send message while disconnected");
+    // Sends that would otherwise be queued behind middleware fail up front as well.
+    phone.use(async (_ctx, next) => next());
+    await expect(call.send("queued")).rejects.toThrow(DisconnectedError);
+    phone.close();
+  });
+
+  it("publishes status and re-applies it after re-registering", async () => {
+    const first = new MockTransport();
+    const second = new MockTransport();
+    const transports = [first, second];
+    let connectIndex = 0;
+
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transports[Math.min(connectIndex++, transports.length - 1)],
+      heartbeatIntervalMs: 0,
+      reconnectBackoffMs: 5,
+    });
+
+    const registerPromise = phone.register("status@example.com");
+    first.open();
+    await nextTick();
+    first.receive({ type: "REGISTERED", address: "status@example.com", session_id: "session-status" });
+    await registerPromise;
+
+    phone.setStatus("dnd", "Deploying");
+    expect(first.getMessagesOfType("STATUS")).toEqual([{ type: "STATUS", status: "dnd", message: "Deploying" }]);
+
+    first.emit("close", 1006, "network");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    second.open();
+    await nextTick();
+    expect(second.getMessagesOfType("STATUS")).toHaveLength(0);
+
+    second.receive({ type: "REGISTERED", address: "status@example.com", session_id: "session-status-2" });
+    expect(second.getMessagesOfType("STATUS")).toEqual([{ type: "STATUS", status: "dnd", message: "Deploying" }]);
+    phone.close();
+  });
+
+  it("resolves unregister once the exchange confirms", async () => {
+    const registerPromise = phone.register("leaving@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "leaving@example.com", session_id: "session-leaving" });
+    await registerPromise;
+
+    const unregistered: string[] = [];
+    phone.on("unregistered", (address) => unregistered.push(address));
+
+    let resolved = false;
+    const unregisterPromise = phone.unregister().then(() => {
+      resolved = true;
+    });
+    await nextTick();
+
+    expect(transport.getMessagesOfType("UNREGISTER")).toHaveLength(1);
+    expect(resolved).toBe(false);
+
+    transport.receive({ type: "UNREGISTERED" });
+    await unregisterPromise;
+    expect(unregistered).toEqual(["leaving@example.com"]);
+  });
+
+  it("delivers presence updates for subscribed addresses", async () => {
+    const updates: unknown[] = [];
+    const listener = (update: unknown) => updates.push(update);
+
+    const subscribePromise = phone.subscribe("agent@example.com", listener);
+    transport.open();
+    await subscribePromise;
+
+    expect(transport.getMessagesOfType("SUBSCRIBE")).toEqual([{ type: "SUBSCRIBE", address: "agent@example.com" }]);
+
+    transport.receive({ type: "PRESENCE", address: "agent@example.com", status: "busy", message: "On a call" });
+    transport.receive({ type: "PRESENCE", address: "other@example.com", status: "away" });
+    expect(updates).toEqual([{ address: "agent@example.com", status: "busy", message: "On a call" }]);
+
+    phone.unsubscribe("agent@example.com", listener);
+    expect(transport.getMessagesOfType("UNSUBSCRIBE")).toEqual([{ type: "UNSUBSCRIBE", address: "agent@example.com" }]);
+  });
+
+  it("rejects unregister when the exchange never confirms it", async () => {
+    phone = new Trimphone("wss://test", { transportFactory: () => transport, heartbeatIntervalMs: 0, unregisterTimeoutMs: 10 });
+    const registerPromise = phone.register("leaving@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "leaving@example.com", session_id: "session-leaving" });
+    await registerPromise;
+
+    await expect(phone.unregister()).rejects.toThrow("timed out");
+  });
+
+  it("keeps delivering presence updates when a listener throws", async () => {
+    const updates: unknown[] = [];
+    const errors: Error[] = [];
+    phone.on("error", (error) => errors.push(error));
+    await Promise.all([
+      phone.subscribe("agent@example.com", () => {
+        throw new Error("listener failed");
+      }),
+      phone.subscribe("agent@example.com", (update) => updates.push(update)),
+      Promise.resolve().then(() => transport.open()),
+    ]);
+
+    transport.receive({ type: "PRESENCE", address: "agent@example.com", status: "away" });
+    expect(updates).toEqual([{ address: "agent@example.com", status: "away", message: undefined }]);
+    expect(errors.map((error) => error.message)).toEqual(["listener failed"]);
+  });
+
+  it("lets middleware inject dial metadata and time the call", async () => {
+    const seen: string[] = [];
+    phone.use(async (ctx, next) => {
+      if (ctx.kind !== "dial") {
+        return next();
+      }
+      ctx.metadata.authToken = "secret";
+      await next();
+      seen.push(ctx.call!.id);
+    });
+
+    const callPromise = phone.dial("service@example.com", { metadata: { subject: "test" } });
+    transport.open();
+    await nextTick();
+
+    const [dial] = transport.getMessagesOfType("DIAL");
+    expect(dial.metadata).toEqual({ subject: "test", authToken: "secret" });
+
+    transport.receive({ type: "CONNECTED", call_id: "call-mw", to: "service@example.com" });
+    await callPromise;
+    expect(seen).toEqual(["call-mw"]);
+  });
+
+  it("rejects inbound calls that middleware does not pass on", async () => {
+    const rings: unknown[] = [];
+    phone.on("ring", (call) => rings.push(call));
+    phone.use(async (ctx, next) => {
+      if (ctx.kind === "ring" && ctx.from === "busy@example.com") {
+        ctx.call.reject("already_in_call");
+        return;
+      }
+      if (ctx.kind === "ring" && ctx.from !== "friend@example.com") {
+        return;
+      }
+      await next();
+    });
+
+    const registerPromise = phone.register("guarded@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "guarded@example.com", session_id: "session-guarded", features: [...EXCHANGE_FEATURES, "reject"] });
+    await registerPromise;
+
+    transport.receive({ type: "RING", call_id: "call-stranger", from: "stranger@example.com" });
+    transport.receive({ type: "RING", call_id: "call-friend", from: "friend@example.com" });
+    transport.receive({ type: "RING", call_id: "call-busy", from: "busy@example.com" });
+    await nextTick();
+
+    expect(rings).toHaveLength(1);
+    expect(transport.getMessagesOfType("REJECT")).toEqual([
+      { type: "REJECT", call_id: "call-busy", reason: "already_in_call" },
+      { type: "REJECT", call_id: "call-stranger", reason: "forbidden" },
+    ]);
+    expect(transport.getMessagesOfType("HANGUP")).toHaveLength(0);
+  });
+
+  it("transforms sent and received payloads in order", async () => {
+    phone.use(async (ctx, next) => {
+      if (ctx.kind === "send" && typeof ctx.data === "string") {
+        await nextTick();
+        ctx.data = ctx.data.replace(/\d/g, "#");
+      }
+      if (ctx.kind === "receive" && typeof ctx.data === "object") {
+        ctx.data = { ...(ctx.data as Record<string, unknown>), redacted: true };
+      }
+      await next();
+    });
+
+    const callPromise = phone.dial("service@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "call-transform", to: "service@example.com" });
+    const call = await callPromise;
+
+    const received: unknown[] = [];
+    call.on("message", (msg) => received.push(msg));
+
+    call.send("card 1234");
+    call.send("pin 99");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(transport.getMessagesOfType("MSG").map((msg) => msg.data)).toEqual(["card ####", "pin ##"]);
+
+    transport.receive({ type: "MSG", call_id: "call-transform", data: JSON.stringify({ ok: 1 }), content_type: "json" });
+    await nextTick();
+    expect(received).toEqual([{ ok: 1, redacted: true }]);
+  });
+
+  it("tracks client and call statistics", async () => {
+    const callPromise = phone.dial("service@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "HEARTBEAT_ACK", timestamp: Date.now() });
+    transport.receive({ type: "CONNECTED", call_id: "call-stats", to: "service@example.com" });
+    const call = await callPromise;
+
+    const failed = phone.dial("busy@example.com");
+    await nextTick();
+    transport.receive({ type: "BUSY", to: "busy@example.com", reason: "dnd" });
+    await expect(failed).rejects.toThrow("Call failed: dnd");
+
+    call.send("hello");
+    call.send({ ok: true }, "json");
+    transport.receive({
+      type: "MSG",
+      call_id: "call-stats",
+      data: Buffer.from("abc").toString("base64"),
+      content_type: "binary",
+    });
+
+    const stats = phone.getStats();
+    expect(stats.callsPlaced).toBe(2);
+    expect(stats.callsFailed).toEqual({ dnd: 1 });
+    expect(stats.activeCalls).toBe(1);
+    expect(stats.sent.text).toEqual({ messages: 1, bytes: 5 });
+    expect(stats.sent.json).toEqual({ messages: 1, bytes: 11 });
+    expect(stats.received.binary).toEqual({ messages: 1, bytes: 3 });
+    expect(stats.heartbeatRttMs).not.toBeNull();
+    // Every frame on the socket counts, not just call payloads.
+    expect(stats.wire.sent).toEqual({
+      frames: transport.sent.length,
+      bytes: transport.sent.reduce((total: number, frame) => total + Buffer.byteLength(frame as string), 0),
+    });
+    expect(stats.wire.received.frames).toBe(4);
+
+    const callStats = call.getStats();
+    expect(callStats.callId).toBe("call-stats");
+    expect(callStats.sent.text.messages).toBe(1);
+    expect(callStats.received.binary.bytes).toBe(3);
+    expect(callStats.wire.sent.frames).toBe(2);
+  });
+
+  it("emits periodic stats events when statsIntervalMs is set", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      statsIntervalMs: 5,
+    });
+
+    const snapshots: unknown[] = [];
+    phone.on("stats", (stats) => snapshots.push(stats));
+
+    const registerPromise = phone.register("metrics@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "metrics@example.com", session_id: "session-metrics" });
+    await registerPromise;
+
+    const callPromise = phone.dial("shell@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "call-metrics", to: "shell@example.com" });
+    const call = await callPromise;
+    const callSnapshots: Array<{ callId: string }> = [];
+    call.on("stats", (stats) => callSnapshots.push(stats));
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    phone.close();
+    expect(snapshots.length).toBeGreaterThanOrEqual(1);
+    expect(callSnapshots.length).toBeGreaterThanOrEqual(1);
+    expect(callSnapshots[0].callId).toBe("call-metrics");
+  });
+
+  it("traces every frame with binary payloads redacted", async () => {
+    const traces: FrameTrace[] = [];
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      onFrame: (trace) => traces.push(trace),
+    });
+
+    const callPromise = phone.dial("service@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "call-trace", to: "service@example.com" });
+    const call = await callPromise;
+    call.send(Buffer.from("top secret"));
+
+    expect(traces.map((trace) => `${trace.direction}:${trace.frame.type}`)).toEqual([
+      "outbound:DIAL",
+      "inbound:CONNECTED",
+      "outbound:MSG",
+    ]);
+    const msgTrace = traces[2];
+    expect(msgTrace.callId).toBe("call-trace");
+    expect(msgTrace.bytes).toBeGreaterThan(0);
+    expect((msgTrace.frame as { data: unknown }).data).toBe("[binary 10 bytes]");
+  });
+
+  it("sends structured log records with call and address context", async () => {
+    const records: Array<{ level: string; message: string; context?: LogContext }> = [];
+    const record = (level: string) => (message: string, context?: LogContext) => records.push({ level, message, context });
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      logger: { debug: record("debug"), info: record("info"), warn: record("warn"), error: record("error") },
+    });
+
+    const registerPromise = phone.register("logged@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "logged@example.com", session_id: "session-logged" });
+    await registerPromise;
+
+    transport.receive({ type: "RING", call_id: "call-logged", from: "caller@example.com" });
+
+    const ring = records.find((entry) => entry.message === "Incoming call");
+    expect(ring).toEqual({
+      level: "info",
+      message: "Incoming call",
+      context: { address: "logged@example.com", callId: "call-logged", from: "caller@example.com" },
+    });
+  });
+
+  it("rejects with typed errors for BUSY, registration failures and disconnects", async () => {
+    const registerPromise = phone.register("typed@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTER_FAILED", reason: "address_in_use" });
+    const registrationError = await registerPromise.catch((error) => error);
+    expect(registrationError).toBeInstanceOf(RegistrationError);
+    expect(registrationError.address).toBe("typed@example.com");
+
+    const busy = phone.dial("busy@example.com");
+    await nextTick();
+    transport.receive({ type: "BUSY", to: "busy@example.com", reason: "no_such_address" });
+    const busyError = await busy.catch((error) => error);
+    expect(busyError).toBeInstanceOf(DialBusyError);
+    expect(busyError).toMatchObject({ reason: "no_such_address", address: "busy@example.com", retryable: false });
+
+    transport = new MockTransport();
+    phone = new Trimphone("wss://test", { transportFactory: () => transport, autoReconnect: false });
+    const dropped = phone.dial("gone@example.com");
+    transport.open();
+    await nextTick();
+    expect(transport.getMessagesOfType("DIAL")).toHaveLength(1);
+    transport.emit("close", 1006, "network");
+    const disconnectedError = await dropped.catch((error) => error);
+    expect(disconnectedError).toBeInstanceOf(DisconnectedError);
+    expect(disconnectedError.retryable).toBe(true);
+  });
+
+  it("emits ProtocolError for malformed frames", async () => {
+    const errors: Error[] = [];
+    phone.on("error", (error) => errors.push(error));
+
+    const registerPromise = phone.register("strict@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "strict@example.com", session_id: "session-strict" });
+    await registerPromise;
+
+    transport.receive({ type: "RING", from: "caller@example.com" });
+    transport.emit("message", "{not json");
+
+    expect(errors).toHaveLength(2);
+    expect(errors.every((error) => error instanceof ProtocolError)).toBe(true);
+    expect(errors[0].message).toBe("Malformed RING message");
+  });
+
+  it("ignores malformed frames quietly when nobody listens for errors", async () => {
+    const registerPromise = phone.register("strict@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "strict@example.com", session_id: "session-strict" });
+    await registerPromise;
+
+    expect(() => transport.receive({ type: "RING", from: "caller@example.com" })).not.toThrow();
+  });
+
+  it("maps BUSY reasons it does not know to offline", async () => {
+    const callPromise = phone.dial("someone@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "BUSY", to: "someone@example.com", reason: "maintenance" });
+
+    await expect(callPromise).rejects.toMatchObject({ reason: "offline", retryable: true });
+  });
+
+  it("rejects a ringing call with a BUSY reason", async () => {
+    const registerPromise = phone.register("screen@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "screen@example.com", session_id: "session-reject", features: [...EXCHANGE_FEATURES, "reject"] });
+    await registerPromise;
+
+    const hangups: Array<string | undefined> = [];
+    phone.on("ring", (call) => {
+      call.on("hangup", (reason) => hangups.push(reason));
+      call.reject("already_in_call");
+      expect(() => call.answer()).toThrow(CallStateError);
+    });
+    transport.receive({ type: "RING", call_id: "call-reject", from: "alice@example.com" });
+
+    expect(transport.getMessagesOfType("REJECT")).toEqual([
+      { type: "REJECT", call_id: "call-reject", reason: "already_in_call" },
+    ]);
+    expect(hangups).toEqual(["already_in_call"]);
+  });
+
+  it("answers and hangs up instead of rejecting on exchanges without the reject feature", async () => {
+    const registerPromise = phone.register("screen@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "screen@example.com", session_id: "session-legacy-reject" });
+    await registerPromise;
+
+    const hangups: Array<string | undefined> = [];
+    phone.on("ring", (call) => {
+      call.on("hangup", (reason) => hangups.push(reason));
+      call.reject("already_in_call");
+    });
+    transport.receive({ type: "RING", call_id: "call-legacy", from: "alice@example.com" });
+
+    expect(transport.getMessagesOfType("REJECT")).toHaveLength(0);
+    expect(transport.sent.slice(-2).map((raw) => JSON.parse(raw as string))).toEqual([
+      { type: "ANSWER", call_id: "call-legacy" },
+      { type: "HANGUP", call_id: "call-legacy", reason: "already_in_call" },
+    ]);
+    expect(hangups).toEqual(["already_in_call"]);
+  });
+
+  it("applies async ring handler decisions", async () => {
+    const registerPromise = phone.register("screen@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "screen@example.com", session_id: "session-screen", features: [...EXCHANGE_FEATURES, "reject"] });
+    await registerPromise;
+
+    phone.onRing(async (call) => {
+      await nextTick();
+      if (call.from === "friend@example.com") {
+        return "answer";
+      }
+      if (call.from === "sales@example.com") {
+        return { forward: "sales-desk@example.com" };
+      }
+      return { reject: "no_such_address" };
+    });
+
+    transport.receive({ type: "RING", call_id: "call-friend", from: "friend@example.com" });
+    transport.receive({ type: "RING", call_id: "call-sales", from: "sales@example.com" });
+    transport.receive({ type: "RING", call_id: "call-spam", from: "spam@example.com" });
+    await nextTick();
+    await nextTick();
+
+    expect(transport.getMessagesOfType("ANSWER")).toEqual([{ type: "ANSWER", call_id: "call-friend" }]);
+    expect(transport.getMessagesOfType("FORWARD")).toEqual([
+      { type: "FORWARD", call_id: "call-sales", to: "sales-desk@example.com" },
+    ]);
+    expect(transport.getMessagesOfType("REJECT")).toEqual([
+      { type: "REJECT", call_id: "call-spam", reason: "no_such_address" },
+    ]);
+  });
+
+  it("rejects unanswered rings with no_answer after ringTimeoutMs", async () => {
+    const timedTransport = new MockTransport();
+    const timedPhone = new Trimphone("wss://test", {
+      transportFactory: () => timedTransport,
+      ringTimeoutMs: 20,
+    });
+    const registerPromise = timedPhone.register("slow@example.com");
+    timedTransport.open();
+    await nextTick();
+    timedTransport.receive({ type: "REGISTERED", address: "slow@example.com", session_id: "session-slow", features: [...EXCHANGE_FEATURES, "reject"] });
+    await registerPromise;
+
+    const hangups: Array<string | undefined> = [];
+    timedPhone.on("ring", (call) => {
+      call.on("hangup", (reason) => hangups.push(reason));
+      if (call.id === "call-answered") {
+        call.answer();
+      }
+      if (call.id === "call-hungup") {
+        expect(() => call.forward("not an address")).toThrow("Invalid SystemX address");
+        call.hangup("busy");
+      }
+    });
+    timedTransport.receive({ type: "RING", call_id: "call-ignored", from: "alice@example.com" });
+    timedTransport.receive({ type: "RING", call_id: "call-answered", from: "alice@example.com" });
+    // Our own HANGUP is not followed by a REJECT while the exchange has yet to echo it.
+    timedTransport.receive({ type: "RING", call_id: "call-hungup", from: "alice@example.com" });
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(timedTransport.getMessagesOfType("REJECT")).toEqual([
+      { type: "REJECT", call_id: "call-ignored", reason: "no_answer" },
+    ]);
+    expect(hangups).toEqual(["no_answer"]);
+    timedPhone.close();
+  });
+
+  it("exposes call state changes and lifecycle timestamps", async () => {
+    const registerPromise = phone.register("bob@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "bob@example.com", session_id: "session-state" });
+    await registerPromise;
+
+    let call: any;
+    phone.on("ring", (incoming) => {
+      call = incoming;
+    });
+    transport.receive({ type: "RING", call_id: "call-state", from: "alice@example.com" });
+
+    const changes: Array<[string, string]> = [];
+    call.on("stateChange", ({ previous, current }: { previous: string; current: string }) => changes.push([previous, current]));
+    expect(call.state).toBe("ringing");
+    expect(call.timestamps.ringingAt).toBe(call.timestamps.createdAt);
+    expect(call.duration).toBe(0);
+
+    call.answer();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    transport.receive({ type: "HANGUP", call_id: "call-state", reason: "normal" });
+
+    expect(changes).toEqual([
+      ["ringing", "active"],
+      ["active", "ended"],
+    ]);
+    const { answeredAt, endedAt } = call.timestamps;
+    expect(answeredAt).not.toBeNull();
+    expect(endedAt).toBeGreaterThanOrEqual(answeredAt);
+    expect(call.duration).toBe(endedAt - answeredAt);
+  });
+
+  it("surfaces progress frames on the outbound call before it connects", async () => {
+    const connectPromise = phone.register("caller@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "caller@example.com", session_id: "session-progress" });
+    await connectPromise;
+
+    const progress: unknown[] = [];
+    const states: string[] = [];
+    let early: any;
+    const callPromise = phone.dial("support@example.com", {
+      onCall: (call) => {
+        early = call;
+        call.on("progress", (update) => progress.push(update));
+        call.on("stateChange", ({ current }) => states.push(current));
+      },
+    });
+    await nextTick();
+    const [dial] = transport.getMessagesOfType("DIAL");
+
+    transport.receive({ type: "QUEUED", call_id: "call-queue", dial_id: dial.dial_id, to: "support@example.com", position: 3 });
+    transport.receive({ type: "RINGING", call_id: "call-queue", to: "support@example.com" });
+    transport.receive({ type: "PROGRESS", call_id: "call-queue", message: "Transferring" });
+    expect(early.state).toBe("ringing");
+
+    transport.receive({ type: "CONNECTED", call_id: "call-queue", to: "support@example.com", dial_id: dial.dial_id });
+    const call = await callPromise;
+
+    expect(call).toBe(early);
+    expect(progress).toEqual([
+      { stage: "queued", position: 3 },
+      { stage: "ringing" },
+      { stage: "progress", message: "Transferring" },
+    ]);
+    expect(states).toEqual(["ringing", "active"]);
+    expect(call.timestamps.ringingAt).not.toBeNull();
+  });
+
+  it("ends a progressing call when the dial turns out busy", async () => {
+    const connectPromise = phone.register("caller@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "caller@example.com", session_id: "session-busy-progress" });
+    await connectPromise;
+
+    const hangups: Array<string | undefined> = [];
+    const callPromise = phone.dial("slow@example.com", {
+      onCall: (call) => call.on("hangup", (reason) => hangups.push(reason)),
+    });
+    await nextTick();
+
+    transport.receive({ type: "RINGING", call_id: "call-unanswered", to: "slow@example.com" });
+    transport.receive({ type: "BUSY", to: "slow@example.com", reason: "no_answer", call_id: "call-unanswered" });
+
+    await expect(callPromise).rejects.toBeInstanceOf(DialBusyError);
+    expect(hangups).toEqual(["no_answer"]);
+  });
+
+  it("records call details when calls end", async () => {
+    const registerPromise = phone.register("bob@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "bob@example.com", session_id: "session-cdr" });
+    await registerPromise;
+
+    const records: any[] = [];
+    phone.on("callRecord", (record) => records.push(record));
+    phone.on("ring", (call) => {
+      if (call.from === "alice@example.com") {
+        call.answer();
+        call.send("hi");
+        call.hangup("done");
+      } else {
+        call.reject("dnd");
+      }
+    });
+
+    transport.receive({ type: "RING", call_id: "call-cdr", from: "alice@example.com", metadata: { topic: "cdr" } });
+    transport.receive({ type: "MSG", call_id: "call-cdr", data: "hello", content_type: "text" });
+    transport.receive({ type: "HANGUP", call_id: "call-cdr", reason: "done" });
+    transport.receive({ type: "RING", call_id: "call-declined", from: "carol@example.com" });
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      id: "call-cdr",
+      direction: "inbound",
+      from: "alice@example.com",
+      metadata: { topic: "cdr" },
+      hangupReason: "done",
+      initiator: "local",
+      bytesIn: 5,
+      bytesOut: 2,
+    });
+    expect(records[0].answeredAt).not.toBeNull();
+    expect(records[1]).toMatchObject({ id: "call-declined", hangupReason: "dnd", initiator: "local", answeredAt: null });
+
+    await nextTick();
+    const history = await phone.history.query({ address: "alice@example.com", direction: "inbound" });
+    expect(history.map((record) => record.id)).toEqual(["call-cdr"]);
+  });
+
+  it("attributes hangups from the other party to the remote side", async () => {
+    const registerPromise = phone.register("bob@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "bob@example.com", session_id: "session-cdr-remote" });
+    await registerPromise;
+
+    phone.on("ring", (call) => call.answer());
+    transport.receive({ type: "RING", call_id: "call-remote", from: "alice@example.com" });
+    transport.receive({ type: "HANGUP", call_id: "call-remote", reason: "normal" });
+    await nextTick();
+
+    const [record] = await phone.history.query();
+    expect(record).toMatchObject({ id: "call-remote", initiator: "remote", hangupReason: "normal" });
+  });
+
+  it("refuses callers outside the registration ACL before emitting ring", async () => {
+    const registerPromise = phone.register("shell@example.com", {
+      acl: { allow: ["*@ops.example.com", { metadata: { ticket: "INC-1" } }], deny: ["intern@ops.example.com"] },
+    });
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "shell@example.com", session_id: "session-acl", features: [...EXCHANGE_FEATURES, "reject"] });
+    await registerPromise;
+
+    const rings: string[] = [];
+    const denied: unknown[] = [];
+    phone.on("ring", (call) => rings.push(call.id));
+    phone.on("accessDenied", (details) => denied.push(details));
+
+    transport.receive({ type: "RING", call_id: "call-ops", from: "alice@ops.example.com" });
+    transport.receive({ type: "RING", call_id: "call-intern", from: "intern@ops.example.com" });
+    transport.receive({ type: "RING", call_id: "call-ticket", from: "vendor@example.net", metadata: { ticket: "INC-1" } });
+    transport.receive({ type: "RING", call_id: "call-stranger", from: "mallory@example.net" });
+
+    expect(rings).toEqual(["call-ops", "call-ticket"]);
+    expect(transport.getMessagesOfType("REJECT")).toEqual([
+      { type: "REJECT", call_id: "call-intern", reason: "forbidden" },
+      { type: "REJECT", call_id: "call-stranger", reason: "forbidden" },
+    ]);
+    expect(denied).toEqual([
+      { callId: "call-intern", from: "intern@ops.example.com", metadata: {}, reason: "denied" },
+      { callId: "call-stranger", from: "mallory@example.net", metadata: {}, reason: "not_allowed" },
+    ]);
+  });
+
+  it("advertises client capabilities and records what the exchange supports", async () => {
+    const registerPromise = phone.register("caps@example.com");
+    transport.open();
+    await nextTick();
+
+    const [register] = transport.getMessagesOfType("REGISTER");
+    expect(register).toMatchObject({ protocol_version: PROTOCOL_VERSION, features: [...CLIENT_FEATURES] });
+    expect(phone.capabilities).toBeNull();
+    expect(phone.supports("presence")).toBe(true);
+
+    transport.receive({
+      type: "REGISTERED",
+      address: "caps@example.com",
+      session_id: "session-caps",
+      protocol_version: 3,
+      features: ["presence", "teleport"],
+    });
+    await registerPromise;
+
+    expect(phone.capabilities).toEqual({ protocolVersion: 3, features: ["presence"], codec: "json" });
+    expect(phone.supports("resume")).toBe(false);
+  });
+
+  it("keeps legacy features working against exchanges that predate negotiation", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      resumeGracePeriodMs: 1_000,
+    });
+    const registerPromise = phone.register("legacy@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "legacy@example.com", session_id: "session-legacy" });
+    await registerPromise;
+
+    expect(phone.capabilities).toEqual({ protocolVersion: 1, features: ["resume", "presence"], codec: "json" });
+    expect(phone.supports("streams")).toBe(false);
+    phone.setStatus("dnd");
+    expect(transport.getMessagesOfType("STATUS")).toEqual([{ type: "STATUS", status: "dnd" }]);
+
+    const callPromise = phone.dial("shell@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "call-legacy", to: "shell@example.com" });
+    const call = await callPromise;
+    const hangups: Array<string | undefined> = [];
+    call.on("hangup", (reason) => hangups.push(reason));
+
+    // Resume predates negotiation, so the call survives the drop.
+    transport.emit("close", 1006, "network");
+    expect(call.isSuspended).toBe(true);
+    expect(hangups).toEqual([]);
+    phone.close();
+  });
+
+  it("switches to a negotiated binary codec and sends binary payloads raw", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      codec: msgpackCodec,
+    });
+    const registerPromise = phone.register("packed@example.com");
+    transport.open();
+    await nextTick();
+
+    const [register] = transport.getMessagesOfType("REGISTER");
+    expect(register.codecs).toEqual(["msgpack", "json"]);
+
+    transport.receive({ type: "REGISTERED", address: "packed@example.com", session_id: "session-packed", codec: "msgpack" });
+    await registerPromise;
+    expect(phone.capabilities?.codec).toBe("msgpack");
+
+    transport.emit("message", Buffer.from(encodeMessagePack({ type: "RING", call_id: "call-packed", from: "alice@example.com" })));
+    const call = (await new Promise((resolve) => {
+      phone.once("ring", resolve);
+      transport.emit("message", encodeMessagePack({ type: "RING", call_id: "call-packed-2", from: "bob@example.com" }));
+    })) as any;
+    expect(call.from).toBe("bob@example.com");
+
+    call.answer();
+    call.send(new Uint8Array([1, 2, 3]), "binary");
+
+    const frames = transport.sent
+      .filter((raw): raw is Uint8Array => raw instanceof Uint8Array)
+      .map((raw) => decodeMessagePack(raw) as Record<string, unknown>);
+    expect(frames.map((frame) => frame.type)).toEqual(["ANSWER", "MSG"]);
+    expect(frames[1]).toEqual({ type: "MSG", call_id: "call-packed-2", data: new Uint8Array([1, 2, 3]), content_type: "binary" });
+  });
+
+  it("keeps JSON when the exchange does not accept the preferred codec", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      codec: msgpackCodec,
+    });
+    const registerPromise = phone.register("plain@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "plain@example.com", session_id: "session-plain" });
+    await registerPromise;
+
+    const ringing = new Promise<any>((resolve) => phone.once("ring", resolve));
+    transport.receive({ type: "RING", call_id: "call-plain", from: "alice@example.com" });
+    (await ringing).answer();
+    expect(phone.capabilities?.codec).toBe("json");
+    expect(typeof transport.sent[transport.sent.length - 1]).toBe("string");
+  });
+
+  it("streams tunnel data as raw binary frames once the exchange accepts them", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      binaryFrames: true,
+    });
+    const registerPromise = phone.register("bulk@example.com");
+    transport.open();
+    await nextTick();
+
+    const [register] = transport.getMessagesOfType("REGISTER");
+    expect(register.features).toEqual([...CLIENT_FEATURES, "binary_frames"]);
+
+    transport.receive({ type: "REGISTERED", address: "bulk@example.com", session_id: "session-bulk", features: ["binary_frames"] });
+    await registerPromise;
+
+    const callPromise = phone.dial("files@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "bulk-call", to: "files@example.com" });
+    const call = await callPromise;
+    const stream = call.getStream();
+
+    const received: Buffer[] = [];
+    stream.on("data", (chunk) => received.push(chunk as Buffer));
+
+    stream.write(Buffer.from([0, 1, 2, 255]));
+    const sent = transport.sent[transport.sent.length - 1];
+    expect(sent).toBeInstanceOf(Uint8Array);
+    const frame = decodeBinaryFrame(sent as Uint8Array);
+    expect(frame.callId).toBe("bulk-call");
+    expect(Array.from(frame.data)).toEqual([0, 1, 2, 255]);
+
+    transport.emit("message", Buffer.from(encodeBinaryFrame({ callId: "bulk-call", flags: 0, data: new Uint8Array([9, 8, 7]) })));
+    await nextTick();
+
+    expect(received).toHaveLength(1);
+    expect(Array.from(received[0])).toEqual([9, 8, 7]);
+    expect(call.getStats().received.binary).toEqual({ messages: 1, bytes: 3 });
+  });
+
+  it("falls back to base64 when the exchange does not accept binary frames", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      binaryFrames: true,
+    });
+    const registerPromise = phone.register("bulk@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "bulk@example.com", session_id: "session-bulk", features: EXCHANGE_FEATURES });
+    await registerPromise;
+
+    const callPromise = phone.dial("files@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "bulk-call", to: "files@example.com" });
+    const call = await callPromise;
+
+    call.getStream().write(Buffer.from("hello"));
+    const messages = transport.getMessagesOfType("MSG");
+    expect(messages[messages.length - 1]).toMatchObject({ data: Buffer.from("hello").toString("base64"), content_type: "binary" });
+  });
+
+  it("flow-controls call streams with CREDIT frames", async () => {
+    const registerPromise = phone.register("agent@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-flow", features: [...CLIENT_FEATURES] });
+    await registerPromise;
+    const callPromise = phone.dial("service@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "flow-call", to: "service@example.com", metadata: { peer_features: [...PEER_FEATURES] } });
+    const call = await callPromise;
+
+    // Credit granted before this side opened its stream is kept for it.
+    transport.receive({ type: "CREDIT", call_id: "flow-call", bytes: 3 });
+    const stream = call.getStream({ windowBytes: 1024 });
+    expect(transport.getMessagesOfType("CREDIT")).toEqual([{ type: "CREDIT", call_id: "flow-call", bytes: 1024 }]);
+
+    const sentData = () => transport.getMessagesOfType("MSG").map((message) => Buffer.from(message.data as string, "base64").toString());
+    stream.write(Buffer.from("hello"));
+    expect(sentData()).toEqual(["hel"]);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    transport.receive({ type: "CREDIT", call_id: "flow-call", bytes: 2 });
+    await nextTick();
+
+    expect(sentData()).toEqual(["hel", "lo"]);
+    expect(call.getStats().streamBlockedMs).toBeGreaterThanOrEqual(15);
+  });
+
+  it("only fragments and grants credit on calls whose peer listed those features", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      maxFrameBytes: 5,
+    });
+    const registerPromise = phone.register("agent@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-peer", features: [...CLIENT_FEATURES] });
+    await registerPromise;
+
+    phone.on("ring", (call) => call.answer());
+    transport.receive({ type: "RING", call_id: "peer-call", from: "client@example.com", metadata: { peer_features: ["fragments", "teleport"] } });
+    await nextTick();
+    expect(transport.getMessagesOfType("ANSWER")).toEqual([{ type: "ANSWER", call_id: "peer-call", metadata: { peer_features: ["fragments"] } }]);
+
+    const callPromise = phone.dial("legacy@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "legacy-call", to: "legacy@example.com" });
+    const legacy = await callPromise;
+    await legacy.send("hello world");
+    legacy.getStream();
+    expect(transport.getMessagesOfType("MSG")).toEqual([{ type: "MSG", call_id: "legacy-call", data: "hello world", content_type: "text" }]);
+    expect(transport.getMessagesOfType("CREDIT")).toHaveLength(0);
+    phone.close();
+  });
+
+  it("holds stream credit while the call is suspended and fails writes still blocked when it ends", async () => {
+    const firstTransport = new MockTransport();
+    const secondTransport = new MockTransport();
+    const transports = [firstTransport, secondTransport];
+    let connectIndex = 0;
+
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transports[Math.min(connectIndex++, transports.length - 1)],
+      heartbeatIntervalMs: 0,
+      reconnectBackoffMs: 5,
+      resumeGracePeriodMs: 1_000,
+    });
+    const registerPromise = phone.register("agent@example.com");
+    firstTransport.open();
+    await nextTick();
+    firstTransport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-held", features: [...CLIENT_FEATURES] });
+    await registerPromise;
+    const callPromise = phone.dial("service@example.com");
+    await nextTick();
+    firstTransport.receive({ type: "CONNECTED", call_id: "held-call", to: "service@example.com", metadata: { peer_features: [...PEER_FEATURES] } });
+    const call = await callPromise;
+
+    firstTransport.emit("close", 1006, "network");
+    const stream = call.getStream({ windowBytes: 1024 }) as import("node:stream").Duplex;
+    expect(firstTransport.getMessagesOfType("CREDIT")).toHaveLength(0);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    secondTransport.open();
+    await nextTick();
+    secondTransport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-held-2", features: [...CLIENT_FEATURES] });
+    secondTransport.receive({ type: "RESUMED", call_ids: ["held-call"] });
+    expect(secondTransport.getMessagesOfType("CREDIT")).toEqual([{ type: "CREDIT", call_id: "held-call", bytes: 1024 }]);
+
+    secondTransport.receive({ type: "CREDIT", call_id: "held-call", bytes: 2 });
+    phone.on("error", () => {});
+    let writeError: Error | null | undefined;
+    stream.write("blocked", (error) => {
+      writeError = error;
+    });
+    secondTransport.receive({ type: "HANGUP", call_id: "held-call", reason: "done" });
+    await nextTick();
+    expect(writeError).toBeInstanceOf(UndeliveredMessageError);
+    phone.close();
+  });
+
+  it("multiplexes named substreams that open and close independently", async () => {
+    const registerPromise = phone.register("agent@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-mux", features: [...CLIENT_FEATURES] });
+    await registerPromise;
+    const callPromise = phone.dial("service@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "mux-call", to: "service@example.com", metadata: { peer_features: [...PEER_FEATURES] } });
+    const call = await callPromise;
+
+    const control = call.getStream("control");
+    expect(call.getStream("control")).toBe(control);
+    expect(call.getStream(2)).not.toBe(control);
+    control.write("status");
+    expect(transport.getMessagesOfType("MSG")).toEqual([
+      { type: "MSG", call_id: "mux-call", stream: "control", data: Buffer.from("status").toString("base64"), content_type: "binary" },
+    ]);
+    expect(transport.getMessagesOfType("CREDIT").map((frame) => frame.stream)).toEqual(["control", "2"]);
+
+    const opened: string[] = [];
+    const logChunks: string[] = [];
+    const messages: unknown[] = [];
+    call.on("message", (message) => messages.push(message));
+    call.on("stream", (name, stream) => {
+      opened.push(name);
+      (stream as import("node:stream").Duplex).on("data", (chunk: Buffer) => logChunks.push(chunk.toString()));
+    });
+
+    transport.receive({ type: "MSG", call_id: "mux-call", stream: "logs", data: Buffer.from("line 1").toString("base64"), content_type: "binary" });
+    transport.receive({ type: "MSG", call_id: "mux-call", stream: "logs", data: "line 2", content_type: "text" });
+    await nextTick();
+
+    expect(opened).toEqual(["logs"]);
+    expect(logChunks).toEqual(["line 1", "line 2"]);
+    expect(messages).toEqual([]);
+    expect(phone.getStats().activeStreams).toBe(3);
+
+    transport.receive({ type: "STREAM_CLOSE", call_id: "mux-call", stream: "logs" });
+    await nextTick();
+    expect(phone.getStats().activeStreams).toBe(2);
+
+    control.destroy();
+    await nextTick();
+    expect(transport.getMessagesOfType("STREAM_CLOSE")).toEqual([{ type: "STREAM_CLOSE", call_id: "mux-call", stream: "control" }]);
+
+    // Data already in flight for a stream this side closed does not reopen it.
+    transport.receive({ type: "MSG", call_id: "mux-call", stream: "control", data: "late", content_type: "text" });
+    await nextTick();
+    expect(opened).toEqual(["logs"]);
+    expect(call.isActive).toBe(true);
+  });
+
+  it("validates substream names and caps the substreams a peer may open", async () => {
+    const registerPromise = phone.register("agent@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-cap", features: [...CLIENT_FEATURES] });
+    await registerPromise;
+    const callPromise = phone.dial("service@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "cap-call", to: "service@example.com" });
+    const call = await callPromise;
+
+    expect(() => call.getStream("default")).toThrow("reserved");
+    expect(() => call.getStream("x".repeat(256))).toThrow("255 bytes");
+    expect(() => call.getStream("x".repeat(255))).not.toThrow();
+
+    const opened: string[] = [];
+    call.on("stream", (name) => opened.push(name));
+    for (let index = 0; index < 64; index += 1) {
+      transport.receive({ type: "MSG", call_id: "cap-call", stream: `peer-${index}`, data: "hi", content_type: "text" });
+    }
+    await nextTick();
+
+    expect(opened).toHaveLength(63);
+    expect(transport.getMessagesOfType("STREAM_CLOSE")).toEqual([{ type: "STREAM_CLOSE", call_id: "cap-call", stream: "peer-63" }]);
+    expect(call.isActive).toBe(true);
+  });
+
+  it("propagates end of stream in both directions while the call stays up", async () => {
+    const registerPromise = phone.register("agent@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-eof", features: [...CLIENT_FEATURES] });
+    await registerPromise;
+    const callPromise = phone.dial("service@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "eof-call", to: "service@example.com" });
+    const call = await callPromise;
+    const stream = call.getStream();
+
+    let readableEnded = false;
+    stream.on("end", () => {
+      readableEnded = true;
+    });
+    stream.resume();
+
+    stream.end("last words");
+    await nextTick();
+    expect(transport.getMessagesOfType("STREAM_END")).toEqual([{ type: "STREAM_END", call_id: "eof-call" }]);
+    expect(readableEnded).toBe(false);
+
+    transport.receive({ type: "MSG", call_id: "eof-call", data: Buffer.from("reply").toString("base64"), content_type: "binary" });
+    transport.receive({ type: "STREAM_END", call_id: "eof-call" });
+    await nextTick();
+
+    expect(readableEnded).toBe(true);
+    expect(call.isActive).toBe(true);
+  });
+
+  it("closes the tunnelled process's stdin when the peer ends its stream", async () => {
+    const registerPromise = phone.register("service@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "service@example.com", session_id: "session-sort" });
+    await registerPromise;
+
+    const lines: string[] = [];
+    let stdout: ReadableStreamDefaultController<Uint8Array> | null = null;
+    const sortProcess = {
+      stdout: new ReadableStream<Uint8Array>({
+        start: (controller) => {
+          stdout = controller;
+        },
+      }),
+      stdin: new WritableStream<Uint8Array>({
+        write: (chunk) => {
+          lines.push(...new TextDecoder().decode(chunk).split("\n").filter(Boolean));
+        },
+        close: () => {
+          stdout?.enqueue(new TextEncoder().encode(`${lines.sort().join("\n")}\n`));
+        },
+      }),
+    };
+
+    phone.on("ring", (call) => {
+      call.answer();
+      void call.tunnel(sortProcess);
+    });
+    transport.receive({ type: "RING", call_id: "call-sort", from: "client@example.com" });
+    await nextTick();
+
+    transport.receive({ type: "MSG", call_id: "call-sort", data: Buffer.from("pear\napple\n").toString("base64"), content_type: "binary" });
+    await nextTick();
+    expect(transport.getMessagesOfType("MSG")).toHaveLength(0);
+
+    transport.receive({ type: "STREAM_END", call_id: "call-sort" });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const output = transport.getMessagesOfType("MSG").map((message) => Buffer.from(message.data as string, "base64").toString());
+    expect(output.join("")).toBe("apple\npear\n");
+    expect(transport.getMessagesOfType("HANGUP")).toHaveLength(0);
+  });
+
+  it("ends the tunnel stream once the process's stdout and forwarded stderr have ended", async () => {
+    const registerPromise = phone.register("service@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "service@example.com", session_id: "session-exit" });
+    await registerPromise;
+
+    let stdout: ReadableStreamDefaultController<Uint8Array> | null = null;
+    let stderr: ReadableStreamDefaultController<Uint8Array> | null = null;
+    const exitingProcess = {
+      stdout: new ReadableStream<Uint8Array>({
+        start: (controller) => {
+          stdout = controller;
+        },
+      }),
+      stderr: new ReadableStream<Uint8Array>({
+        start: (controller) => {
+          stderr = controller;
+        },
+      }),
+      stdin: new WritableStream<Uint8Array>(),
+    };
+
+    phone.on("ring", (call) => {
+      call.answer();
+      void call.tunnel(exitingProcess);
+    });
+    transport.receive({ type: "RING", call_id: "call-exit", from: "client@example.com" });
+    await nextTick();
+
+    stdout!.enqueue(new TextEncoder().encode("done\n"));
+    stdout!.close();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(transport.getMessagesOfType("STREAM_END")).toHaveLength(0);
+
+    stderr!.enqueue(new TextEncoder().encode("warning\n"));
+    stderr!.close();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const output = transport.getMessagesOfType("MSG").map((message) => Buffer.from(message.data as string, "base64").toString());
+    expect(output.join("")).toBe("done\nwarning\n");
+    expect(transport.getMessagesOfType("STREAM_END")).toEqual([{ type: "STREAM_END", call_id: "call-exit" }]);
+  });
+  it("fragments large messages and reports send progress", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      maxFrameBytes: 5,
+    });
+    const registerPromise = phone.register("agent@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-frag", features: [...CLIENT_FEATURES] });
+    await registerPromise;
+    const callPromise = phone.dial("bulk@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "frag-call", to: "bulk@example.com", metadata: { peer_features: [...PEER_FEATURES] } });
+    const call = await callPromise;
+
+    const progress: Array<{ sentBytes: number; totalBytes: number }> = [];
+    call.on("sendProgress", ({ sentBytes, totalBytes }) => progress.push({ sentBytes, totalBytes }));
+
+    await Promise.all([call.send("hello world"), call.send("after")]);
+
+    const messages = transport.getMessagesOfType("MSG");
+    expect(messages).toHaveLength(4);
+    const fragments = messages.slice(0, 3);
+    expect(fragments.map((message) => message.fragment_index)).toEqual([0, 1, 2]);
+    expect(new Set(fragments.map((message) => message.fragment_id)).size).toBe(1);
+    expect(fragments.map((message) => Buffer.from(message.data as string, "base64").toString()).join("")).toBe("hello world");
+    expect(fragments.every((message) => message.content_type === "text" && message.fragment_count === 3)).toBe(true);
+    // Later sends wait for the fragmented message to finish.
+    expect(messages[3]).toMatchObject({ data: "after", content_type: "text" });
+    expect(progress).toEqual([
+      { sentBytes: 5, totalBytes: 11 },
+      { sentBytes: 10, totalBytes: 11 },
+      { sentBytes: 11, totalBytes: 11 },
+    ]);
+  });
+
+  it("rejects send() when a fragmented message fails part-way", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      maxFrameBytes: 5,
+    });
+    const registerPromise = phone.register("agent@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-frag-fail", features: [...CLIENT_FEATURES] });
+    await registerPromise;
+    const callPromise = phone.dial("bulk@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "frag-fail", to: "bulk@example.com", metadata: { peer_features: [...PEER_FEATURES] } });
+    const call = await callPromise;
+    const errors: Error[] = [];
+    phone.on("error", (error) => errors.push(error));
+
+    const send = transport.send.bind(transport);
+    transport.send = (data: unknown) => {
+      if (transport.getMessagesOfType("MSG").length > 0) {
+        throw new Error("socket gone");
+      }
+      send(data);
+    };
+
+    await expect(call.send("hello world")).rejects.toThrow("socket gone");
+    expect(errors).toEqual([]);
+
+    // The queue moves on to later sends.
+    transport.send = send;
+    await call.send("after");
+    expect(transport.getMessagesOfType("MSG").at(-1)).toMatchObject({ data: "after" });
+  });
+
+  it("delivers a fragmented message once all fragments have arrived", async () => {
+    const callPromise = phone.dial("bulk@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "frag-call", to: "bulk@example.com" });
+    const call = await callPromise;
+
+    const messages: unknown[] = [];
+    call.on("message", (data) => messages.push(data));
+
+    const json = Buffer.from(JSON.stringify({ items: [1, 2, 3] }));
+    const fragment = (index: number, data: Buffer) => ({
+      type: "MSG",
+      call_id: "frag-call",
+      data: data.toString("base64"),
+      content_type: "json",
+      fragment_id: "m1",
+      fragment_index: index,
+      fragment_count: 2,
+    });
+    transport.receive(fragment(1, json.subarray(6)));
+    await nextTick();
+    expect(messages).toHaveLength(0);
+
+    transport.receive(fragment(0, json.subarray(0, 6)));
+    await nextTick();
+    expect(messages).toEqual([{ items: [1, 2, 3] }]);
+    expect(call.getStats().received.json).toEqual({ messages: 1, bytes: json.byteLength });
+  });
+
+  it("drops fragmented messages larger than maxMessageBytes", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      maxMessageBytes: 4,
+    });
+    const errors: Error[] = [];
+    phone.on("error", (error) => errors.push(error));
+    const callPromise = phone.dial("bulk@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "frag-call", to: "bulk@example.com" });
+    const call = await callPromise;
+
+    const messages: unknown[] = [];
+    call.on("message", (data) => messages.push(data));
+    for (const [index, text] of ["abc", "def", "g"].entries()) {
+      transport.receive({
+        type: "MSG",
+        call_id: "frag-call",
+        data: Buffer.from(text).toString("base64"),
+        content_type: "binary",
+        fragment_id: "big",
+        fragment_index: index,
+        fragment_count: 3,
+      });
+    }
+    await nextTick();
+
+    expect(messages).toHaveLength(0);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(MessageTooLargeError);
+    expect(call.isActive).toBe(true);
+  });
+  it("offers compression when dialling and compresses large payloads once the callee agrees", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      compression: ["gzip", "deflate"],
+      compressionThresholdBytes: 64,
+    });
+    const registerPromise = phone.register("agent@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-zip", features: [...CLIENT_FEATURES] });
+    await registerPromise;
+    const callPromise = phone.dial("logs@example.com", { metadata: { subject: "tail" } });
+    await nextTick();
+
+    const [dial] = transport.getMessagesOfType("DIAL");
+    expect(dial.metadata).toEqual({ subject: "tail", compression: ["gzip", "deflate"], peer_features: ["fragments", "flow_control"] });
+
+    transport.receive({ type: "CONNECTED", call_id: "zip-call", to: "logs@example.com", metadata: { compression: "deflate" } });
+    const call = await callPromise;
+    expect(call.compression).toBe("deflate");
+
+    const log = "GET /health 200\n".repeat(50);
+    call.send(log);
+    call.send("short");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const [compressed, short] = transport.getMessagesOfType("MSG");
+    expect(compressed).toMatchObject({ content_type: "text", compression: "deflate" });
+    const bytes = Buffer.from(compressed.data as string, "base64");
+    expect(inflateSync(bytes).toString()).toBe(log);
+    expect(short).toEqual({ type: "MSG", call_id: "zip-call", data: "short", content_type: "text" });
+
+    const { compression } = call.getStats();
+    expect(compression.algorithm).toBe("deflate");
+    expect(compression.sent).toMatchObject({ messages: 1, bytes: log.length, compressedBytes: bytes.byteLength });
+    expect(compression.sent.ratio).toBeLessThan(0.2);
+    expect(phone.getStats().compression.sent.messages).toBe(1);
+
+    // Tunnel stream chunks are compressed the same way, ahead of the half-close.
+    call.getStream().end(Buffer.alloc(512, "a"));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const chunk = transport.getMessagesOfType("MSG")[2];
+    expect(chunk).toMatchObject({ content_type: "binary", compression: "deflate" });
+    expect(inflateSync(Buffer.from(chunk.data as string, "base64"))).toEqual(Buffer.alloc(512, "a"));
+    const types = transport.sent.map((frame) => JSON.parse(frame as string).type);
+    expect(types.slice(-2)).toEqual(["MSG", "STREAM_END"]);
+  });
+
+  it("accepts compression when answering and delivers inflated messages in order", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      compression: ["deflate", "gzip"],
+    });
+    const registerPromise = phone.register("logs@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "logs@example.com", session_id: "session-zip" });
+    await registerPromise;
+
+    const messages: string[] = [];
+    phone.on("ring", (call) => {
+      call.on("message", (data) => messages.push(data.toString()));
+      call.answer();
+    });
+    transport.receive({ type: "RING", call_id: "zip-call", from: "agent@example.com", metadata: { compression: ["gzip", "deflate"] } });
+    await nextTick();
+
+    const [answer] = transport.getMessagesOfType("ANSWER");
+    expect(answer).toEqual({ type: "ANSWER", call_id: "zip-call", metadata: { compression: "gzip" } });
+
+    const report = JSON.stringify({ lines: ["a", "b", "c"] });
+    transport.receive({ type: "MSG", call_id: "zip-call", data: gzipSync(report).toString("base64"), content_type: "text", compression: "gzip" });
+    transport.receive({ type: "MSG", call_id: "zip-call", data: "plain", content_type: "text" });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(messages).toEqual([report, "plain"]);
+    expect(phone.getStats().compression.received.bytes).toBe(report.length);
+  });
+  it("encrypts call payloads end to end after exchanging keys over MSG frames", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      encryption: true,
+    });
+    const callPromise = phone.dial("vault@example.com");
+    transport.open();
+    await nextTick();
+    expect(transport.getMessagesOfType("DIAL")[0].metadata).toEqual({ e2e: E2E_SCHEME });
+
+    transport.receive({ type: "CONNECTED", call_id: "e2e-call", to: "vault@example.com", metadata: { e2e: E2E_SCHEME } });
+    const call = await callPromise;
+    const received: string[] = [];
+    call.on("message", (data) => received.push(data.toString()));
+    call.send("top secret");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    // Nothing but the key goes out until the peer's key has arrived.
+    const [keyFrame, ...early] = transport.getMessagesOfType("MSG");
+    expect(keyFrame.e2e).toBe("key");
+    expect(early).toHaveLength(0);
+
+    const peer = new E2eSession("e2e-call");
+    await peer.accept(Buffer.from(keyFrame.data as string, "base64"));
+    const peerKey = await peer.publicKey();
+    transport.receive({ type: "MSG", call_id: "e2e-call", data: Buffer.from(peerKey).toString("base64"), content_type: "binary", e2e: "key" });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(call.isEncrypted).toBe(true);
+    expect(call.peerFingerprint).toBe(await keyFingerprint(peerKey));
+    const sealed = transport.getMessagesOfType("MSG")[1];
+    expect(sealed).toMatchObject({ content_type: "text", e2e: "sealed" });
+    expect(sealed.data).not.toContain("top secret");
+    const aad = e2eAssociatedData("e2e-call", "text", undefined);
+    const opened = await peer.open(Buffer.from(sealed.data as string, "base64"), aad);
+    expect(new TextDecoder().decode(opened)).toBe("top secret");
+
+    const reply = await peer.seal(new TextEncoder().encode("acknowledged"), aad);
+    transport.receive({ type: "MSG", call_id: "e2e-call", data: Buffer.from(reply).toString("base64"), content_type: "text", e2e: "sealed" });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(received).toEqual(["acknowledged"]);
+  });
+
+  it("hangs up an encrypted call when a payload fails authentication", async () => {
+    const registerPromise = phone.register("vault@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "vault@example.com", session_id: "session-e2e" });
+    await registerPromise;
+
+    let call: any = null;
+    phone.on("ring", (incoming) => {
+      call = incoming;
+      incoming.answer();
+    });
+    transport.receive({ type: "RING", call_id: "e2e-call", from: "agent@example.com", metadata: { e2e: E2E_SCHEME } });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(transport.getMessagesOfType("ANSWER")[0].metadata).toEqual({ e2e: E2E_SCHEME });
+
+    const ended: Array<string | undefined> = [];
+    call.on("hangup", (reason: string | undefined) => ended.push(reason));
+    const peer = new E2eSession("e2e-call");
+    const [keyFrame] = transport.getMessagesOfType("MSG");
+    await peer.accept(Buffer.from(keyFrame.data as string, "base64"));
+    transport.receive({ type: "MSG", call_id: "e2e-call", data: Buffer.from(await peer.publicKey()).toString("base64"), content_type: "binary", e2e: "key" });
+
+    const forged = await peer.seal(new TextEncoder().encode("hello"), e2eAssociatedData("e2e-call", "text", undefined));
+    forged[20] ^= 1;
+    transport.receive({ type: "MSG", call_id: "e2e-call", data: Buffer.from(forged).toString("base64"), content_type: "text", e2e: "sealed" });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(ended).toEqual([E2E_AUTH_FAILED]);
+    expect(transport.getMessagesOfType("HANGUP")).toEqual([{ type: "HANGUP", call_id: "e2e-call", reason: E2E_AUTH_FAILED }]);
+  });
+
+  it("sequences messages on reliable calls and resolves sends once acknowledged", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      reliable: true,
+    });
+    const registerPromise = phone.register("agent@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-ack", features: ["acks"] });
+    await registerPromise;
+
+    const callPromise = phone.dial("ledger@example.com");
+    await nextTick();
+    expect(transport.getMessagesOfType("DIAL")[0].metadata).toEqual({ reliable: true });
+    transport.receive({ type: "CONNECTED", call_id: "ack-call", to: "ledger@example.com", metadata: { reliable: true } });
+    const call = await callPromise;
+    expect(call.isReliable).toBe(true);
+
+    const received: string[] = [];
+    call.on("message", (data) => received.push(data.toString()));
+    let delivered = false;
+    const first = call.send("entry 1").then(() => {
+      delivered = true;
+    });
+    void call.send("entry 2");
+    expect(transport.getMessagesOfType("MSG").map((msg) => msg.seq)).toEqual([1, 2]);
+
+    transport.receive({ type: "ACK", call_id: "ack-call", seq: 1 });
+    await first;
+    expect(delivered).toBe(true);
+
+    // Duplicates are dropped, and one ACK covers everything received in the meantime.
+    transport.receive({ type: "MSG", call_id: "ack-call", data: "ok 1", content_type: "text", seq: 1 });
+    transport.receive({ type: "MSG", call_id: "ack-call", data: "ok 1", content_type: "text", seq: 1 });
+    transport.receive({ type: "MSG", call_id: "ack-call", data: "ok 2", content_type: "text", seq: 2 });
+    expect(received).toEqual(["ok 1", "ok 2"]);
+    expect(transport.getMessagesOfType("ACK")).toHaveLength(0);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(transport.getMessagesOfType("ACK")).toEqual([{ type: "ACK", call_id: "ack-call", seq: 2 }]);
+  });
+
+  it("waits for the callee to agree to reliable delivery and retransmits when no ACK arrives", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      reliable: true,
+      retransmitTimeoutMs: 20,
+    });
+    const registerPromise = phone.register("agent@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-ack-echo", features: ["acks"] });
+    await registerPromise;
+
+    const plainPromise = phone.dial("legacy@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "plain-call", to: "legacy@example.com" });
+    const plain = await plainPromise;
+    expect(plain.isReliable).toBe(false);
+    await plain.send("unsequenced");
+    expect(transport.getMessagesOfType("MSG")[0].seq).toBeUndefined();
+
+    const callPromise = phone.dial("ledger@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "lossy-call", to: "ledger@example.com", metadata: { reliable: true } });
+    const call = await callPromise;
+    const sent = call.send("entry 1");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // Sent again every retransmit timeout for as long as no ACK arrives.
+    const writes = transport.getMessagesOfType("MSG").filter((msg) => msg.call_id === "lossy-call");
+    expect(writes.length).toBeGreaterThanOrEqual(2);
+    expect(new Set(writes.map((msg) => `${msg.seq} ${msg.data}`))).toEqual(new Set(["1 entry 1"]));
+    transport.receive({ type: "ACK", call_id: "lossy-call", seq: 1 });
+    await sent;
+  });
+
+  it("rejects sends beyond the unacknowledged limit instead of throwing", async () => {
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transport,
+      heartbeatIntervalMs: 0,
+      reliable: true,
+    });
+    const registerPromise = phone.register("agent@example.com");
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-ack-cap", features: ["acks"] });
+    await registerPromise;
+
+    const callPromise = phone.dial("ledger@example.com");
+    await nextTick();
+    transport.receive({ type: "CONNECTED", call_id: "capped-call", to: "ledger@example.com", metadata: { reliable: true } });
+    const call = await callPromise;
+
+    for (let i = 1; i <= 1024; i++) {
+      void call.send(`entry ${i}`);
+    }
+    await expect(call.send("one too many")).rejects.toMatchObject({ name: "UndeliveredMessageError", reason: "unacked_limit" });
+
+    transport.receive({ type: "ACK", call_id: "capped-call", seq: 1024 });
+    const afterAck = call.send("room again");
+    transport.receive({ type: "ACK", call_id: "capped-call", seq: 1025 });
+    await afterAck;
+    phone.close();
+  });
+
+  it("retransmits unacknowledged messages after a resume and fails them on hangup", async () => {
+    const firstTransport = new MockTransport();
+    const secondTransport = new MockTransport();
+    const transports = [firstTransport, secondTransport];
+    let connectIndex = 0;
+
+    phone = new Trimphone("wss://test", {
+      transportFactory: () => transports[Math.min(connectIndex++, transports.length - 1)],
+      heartbeatIntervalMs: 0,
+      reconnectBackoffMs: 5,
+      resumeGracePeriodMs: 1_000,
+      reliable: true,
+    });
+    const features = [...EXCHANGE_FEATURES, "acks"];
+    const registerPromise = phone.register("agent@example.com");
+    firstTransport.open();
+    await nextTick();
+    firstTransport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-replay", features });
+    await registerPromise;
+
+    const callPromise = phone.dial("ledger@example.com");
+    await nextTick();
+    firstTransport.receive({ type: "CONNECTED", call_id: "replay-call", to: "ledger@example.com", metadata: { reliable: true } });
+    const call = await callPromise;
+
+    void call.send("acked");
+    firstTransport.receive({ type: "ACK", call_id: "replay-call", seq: 1 });
+    const lostInFlight = call.send("in flight");
+    firstTransport.emit("close", 1006, "network");
+    const whileAway = call.send("while away");
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    secondTransport.open();
+    await nextTick();
+    secondTransport.receive({ type: "REGISTERED", address: "agent@example.com", session_id: "session-replay-2", features });
+    secondTransport.receive({ type: "RESUMED", call_ids: ["replay-call"] });
+    expect(secondTransport.getMessagesOfType("MSG").map((msg) => [msg.seq, msg.data])).toEqual([
+      [2, "in flight"],
+      [3, "while away"],
+    ]);
+
+    secondTransport.receive({ type: "ACK", call_id: "replay-call", seq: 2 });
+    await lostInFlight;
+    secondTransport.receive({ type: "HANGUP", call_id: "replay-call", reason: "done" });
+    await expect(whileAway).rejects.toBeInstanceOf(UndeliveredMessageError);
+    phone.close();
+  });
+
+  it("serves JSON-RPC handlers on every call to the served address", async () => {
+    const servePromise = phone.serveRpc("calc@example.com", { add: ([a, b]: [number, number]) => a + b });
+    transport.open();
+    await nextTick();
+    transport.receive({ type: "REGISTERED", address: "calc@example.com", session_id: "session-rpc" });
+    const service = await servePromise;
+
+    transport.receive({ type: "RING", call_id: "rpc-call", from: "agent@example.com" });
+    await nextTick();
+    expect(transport.getMessagesOfType("ANSWER")).toEqual([{ type: "ANSWER", call_id: "rpc-call" }]);
+
+    transport.receive({ type: "MSG", call_id: "rpc-call", data: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "add", params: [2, 3] }), content_type: "json" });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const [response] = transport.getMessagesOfType("MSG");
+    expect(response).toMatchObject({ call_id: "rpc-call", content_type: "json" });
+    expect(JSON.parse(response.data as string)).toEqual({ jsonrpc: "2.0", id: 1, result: 5 });
+
+    service.stop();
+    transport.receive({ type: "RING", call_id: "rpc-call-2", from: "agent@example.com" });
+    await nextTick();
+    expect(transport.getMessagesOfType("ANSWER")).toHaveLength(1);
+  });
 });
@@ -40,4 +40,90 @@ describe("TunnelStream", () => {
 
     expect(stream.readableEnded).toBe(true);
   });
+
+  it("writes freely until the peer grants credit, then respects the window", async () => {
+    const chunks: Buffer[] = [];
+    const stream = new TunnelStream((chunk) => {
+      chunks.push(chunk);
+    });
+
+    stream.write(Buffer.alloc(100));
+    expect(chunks.map((chunk) => chunk.byteLength)).toEqual([100]);
+
+    stream.grantCredit(4);
+    let written = false;
+    stream.write("abcdefgh", () => {
+      written = true;
+    });
+    await nextTick();
+
+    expect(chunks.slice(1).map((chunk) => chunk.toString())).toEqual(["abcd"]);
+    expect(written).toBe(false);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    stream.grantCredit(10);
+    await nextTick();
+
+    expect(chunks.slice(1).map((chunk) => chunk.toString())).toEqual(["abcd", "efgh"]);
+    expect(written).toBe(true);
+    expect(stream.blockedMs).toBeGreaterThanOrEqual(15);
+  });
+
+  it("grants the initial window and returns consumed bytes in half-window batches", async () => {
+    const grants: number[] = [];
+    const stream = new TunnelStream(() => {}, { windowBytes: 8, sendCredit: (bytes) => grants.push(bytes) });
+    stream.resume();
+
+    expect(grants).toEqual([8]);
+    stream.pushChunk(Buffer.from("abc"));
+    expect(grants).toEqual([8]);
+    stream.pushChunk(Buffer.from("d"));
+    expect(grants).toEqual([8, 4]);
+  });
+
+  it("holds back credit while the readable buffer is full", async () => {
+    const grants: number[] = [];
+    const stream = new TunnelStream(() => {}, {
+      windowBytes: 4,
+      readableHighWaterMark: 4,
+      sendCredit: (bytes) => grants.push(bytes),
+    });
+
+    stream.pushChunk(Buffer.from("abcd"));
+    stream.pushChunk(Buffer.from("efgh"));
+    expect(grants).toEqual([4]);
+
+    stream.resume();
+    await nextTick();
+    expect(grants.reduce((total, bytes) => total + bytes, 0)).toBe(12);
+  });
+
+  it("signals end of stream only after pending writes have been sent", async () => {
+    const events: string[] = [];
+    const stream = new TunnelStream((chunk) => events.push(chunk.toString()), { sendEnd: () => events.push("END") });
+    stream.grantCredit(2);
+
+    stream.end("abcd");
+    await nextTick();
+    expect(events).toEqual(["ab"]);
+
+    stream.grantCredit(2);
+    await nextTick();
+    expect(events).toEqual(["ab", "cd", "END"]);
+  });
+
+  it("fails a write waiting for credit when the stream is destroyed", async () => {
+    const stream = new TunnelStream(() => {});
+    stream.on("error", () => {});
+    stream.grantCredit(2);
+
+    let writeError: Error | null | undefined;
+    stream.write("abcd", (error) => {
+      writeError = error;
+    });
+    stream.destroy();
+    await nextTick();
+
+    expect(writeError).toBeInstanceOf(Error);
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "bun:test";
-import { isValidAddress } from "../../src/utils";
+import { createId, isValidAddress } from "../../src/utils";
 
 describe("isValidAddress", () => {
   it("accepts valid addresses", () => {
@@ -15,3 +15,13 @@ describe("isValidAddress", () => {
     expect(isValidAddress("user@example")).toBe(false);
   });
 });
+
+describe("createId", () => {
+  it("generates unique prefixed identifiers", () => {
+    const ids = new Set(Array.from({ length: 100 }, () => createId("dial")));
+    expect(ids.size).toBe(100);
+    for (const id of ids) {
+      expect(id.startsWith("dial-")).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "bun:test";
+import { nodeCompressor } from "../../src/compression";
+import { browserCompressor } from "../../src/web/compression";
+
+describe("browserCompressor", () => {
+  it("produces payloads zlib can read and reads zlib's", async () => {
+    const input = new TextEncoder().encode(JSON.stringify({ rows: Array.from({ length: 100 }, (_, id) => ({ id })) }));
+    for (const algorithm of ["deflate", "gzip"] as const) {
+      const fromBrowser = await browserCompressor.compress(algorithm, input);
+      expect(await nodeCompressor.decompress(algorithm, fromBrowser, input.byteLength)).toEqual(input);
+
+      const fromNode = await nodeCompressor.compress(algorithm, input);
+      expect(await browserCompressor.decompress(algorithm, fromNode, input.byteLength)).toEqual(input);
+    }
+  });
+
+  it("stops inflating once the output passes the limit", async () => {
+    const input = new Uint8Array(1024 * 1024);
+    for (const algorithm of ["deflate", "gzip"] as const) {
+      const compressed = await browserCompressor.compress(algorithm, input);
+      expect(await browserCompressor.decompress(algorithm, compressed, input.byteLength - 1)).toBeNull();
+    }
+  });
+});
@@ -29,4 +29,76 @@ describe("BrowserTunnelStream", () => {
     const { value } = await reader.read();
     expect(decoder.decode(value!)).toBe("world");
   });
+
+  it("holds writes until the peer grants credit", async () => {
+    const chunks: Uint8Array[] = [];
+    const stream = new BrowserTunnelStream((chunk) => {
+      chunks.push(chunk);
+    });
+    stream.grantCredit(3);
+
+    const writer = stream.createView().writable.getWriter();
+    let written = false;
+    const write = writer.write(encoder.encode("hello")).then(() => {
+      written = true;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(chunks.map((chunk) => decoder.decode(chunk))).toEqual(["hel"]);
+    expect(written).toBe(false);
+
+    stream.grantCredit(5);
+    await write;
+    expect(chunks.map((chunk) => decoder.decode(chunk))).toEqual(["hel", "lo"]);
+  });
+
+  it("credits the peer as views consume data", async () => {
+    const grants: number[] = [];
+    const stream = new BrowserTunnelStream(() => {}, { windowBytes: 4, sendCredit: (bytes) => grants.push(bytes) });
+    const reader = stream.createView().readable.getReader();
+    expect(grants).toEqual([4]);
+
+    stream.pushChunk(encoder.encode("ab"));
+    await reader.read();
+    expect(grants).toEqual([4, 2]);
+  });
+
+  it("half-closes when a view's writable closes and keeps writing after the peer's end", async () => {
+    const chunks: string[] = [];
+    let ends = 0;
+    const stream = new BrowserTunnelStream((chunk) => chunks.push(decoder.decode(chunk)), {
+      sendEnd: () => {
+        ends += 1;
+      },
+    });
+    const first = stream.createView();
+    const second = stream.createView();
+    const reader = first.readable.getReader();
+
+    stream.endFromRemote();
+    expect(await reader.read()).toEqual({ done: true, value: undefined });
+
+    const writer = second.writable.getWriter();
+    await writer.write(encoder.encode("still here"));
+    await writer.close();
+    await first.writable.close();
+
+    expect(chunks).toEqual(["still here"]);
+    expect(ends).toBe(1);
+  });
+
+  it("rejects writes from every view once one view closed its writable", async () => {
+    const events: string[] = [];
+    const stream = new BrowserTunnelStream((chunk) => events.push(decoder.decode(chunk)), {
+      sendEnd: () => events.push("END"),
+    });
+    const first = stream.createView().writable.getWriter();
+    const second = stream.createView().writable.getWriter();
+
+    await first.write(encoder.encode("hi"));
+    await first.close();
+
+    await expect(second.write(encoder.encode("late"))).rejects.toThrow("after the stream was ended");
+    expect(events).toEqual(["hi", "END"]);
+  });
 });
@@ -21,6 +21,7 @@ class MockWebSocket extends EventTarget implements WebSocketLike {
   static CLOSED = 3;
 
   readyState = MockWebSocket.CONNECTING;
+  binaryType: BinaryType = "blob";
   public sent: any[] = [];
 
   constructor(public url: string, public protocols?: string | string[]) {
@@ -108,4 +109,25 @@ describe("BrowserWebSocketTransport", () => {
         expect(error.message).toContain("WebSocket closed before opening");
       });
   });
+
+  it("receives binary messages as ArrayBuffers and sends bytes unchanged", async () => {
+    let socket: MockWebSocket | null = null;
+    const transport = new BrowserWebSocketTransport({
+      createWebSocket: (url) => {
+        socket = new MockWebSocket(url);
+        return socket;
+      },
+    });
+
+    const promise = transport.connect({ url: "wss://example.com" });
+    if (!socket) throw new Error("socket not created");
+    expect(socket.binaryType).toBe("arraybuffer");
+    socket.readyState = MockWebSocket.OPEN;
+    socket.dispatchEvent(new Event("open"));
+    await promise;
+
+    const bytes = new Uint8Array([0xc1, 1, 0, 0, 0]);
+    transport.send(bytes);
+    expect(socket.sent[0]).toBe(bytes);
+  });
 });